@@ -1,11 +1,96 @@
-import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { ChangeDetectionStrategy, Component, computed, effect, inject, signal, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
-import { GeminiService } from './services/gemini.service';
+import {
+  AnalysisProvider,
+  AnalysisProviderId,
+  AnalysisResult,
+  FileForProcessing,
+  FolderAlternative,
+  FolderOption,
+  ProviderSettings,
+} from './services/analysis-provider';
+import { ContentBudget, DEFAULT_CONTENT_BUDGET, OCR_TEXT_LABEL, OcrOptions, prepareContent } from './services/content-preparation';
+import { OCR_LANGUAGES, OcrService, ocrLanguageNames } from './services/ocr.service';
+import { ANALYSIS_PROVIDERS } from './services/analysis-providers';
+import { normalizeAmount, normalizeCurrency } from './services/analysis-prompt';
+import {
+  AnalysisError,
+  AnalysisErrorCategory,
+  describeAnalysisError,
+  errorCategoryOf,
+  isRetryableAnalysisError,
+} from './services/analysis-error';
+import { FileSystemAccessService, MoveResult } from './services/file-system-access.service';
+import { SessionState, SessionStoreService, SessionSummary, StoredFile } from './services/session-store.service';
+import { AnalysisCacheService } from './services/analysis-cache.service';
+import { CorrectionExample, CorrectionExamplesService } from './services/correction-examples.service';
 import { PdfViewerComponent } from './pdf-viewer.component';
 import { DocxViewerComponent } from './docx-viewer.component';
+import { RulesEditorComponent } from './rules-editor.component';
+import { FolderTreeEditorComponent } from './folder-tree-editor.component';
+import { sanitizeFilename, sanitizeFolderPath } from './utils/sanitize';
+import {
+  DO_NOT_MOVE,
+  ScriptOptions,
+  ScriptTarget,
+  generateOrganizeScript,
+  generateUndoScript,
+  isMovedFile,
+  originalFileName,
+  originalFolder,
+  targetFileName,
+} from './utils/script-generators';
+import { CollisionStrategy, findCollisions, resolveCollisions } from './utils/collisions';
+import { SourceScanOptions, isIncludedInScan, isSystemFile, parsePatternList } from './utils/source-scan';
+import { ArchiveLocation, expandZipArchive, isZipArchive } from './utils/archive-expansion';
+import { withRetry } from './utils/retry';
+import { WorkQueue } from './utils/work-queue';
+import { sha256Hex } from './utils/content-hash';
+import { differenceHash } from './utils/perceptual-hash';
+import { FileRule, findMatchingRule, splitCommaList } from './utils/rules';
+import { FILENAME_TEMPLATE_TOKENS, TemplateContext, renderFilenameTemplate } from './utils/filename-template';
+import { readExifDate } from './utils/exif';
+import { toCsv } from './utils/csv';
+import { createSidecar } from './utils/sidecar';
+import { ZipWriterEntry, zipArchiveParts } from './utils/zip-writer';
+import { describeFile, findTextExtractor } from './utils/text-extractors';
+import {
+  FolderNode,
+  addFolderPath,
+  buildFolderTree,
+  exportFolderTree,
+  flattenFolderTree,
+  folderPathsById,
+  importFolderTree,
+} from './utils/folder-tree';
+import { closestFolder } from './utils/folder-similarity';
+import { selectRelevantExamples } from './utils/example-selection';
+import { ManifestEntry, createManifest, manifestToCsv, manifestToJson, parseManifest } from './utils/manifest';
+import { DUPLICATES_FOLDER, DuplicateGroup, DuplicateHandling, DuplicateKind, findDuplicateGroups } from './utils/duplicates';
 
-type FileStatus = 'pending' | 'processing' | 'done' | 'error';
+type FileStatus = 'pending' | 'queued' | 'processing' | 'done' | 'error';
+type ApplyStatus = 'applying' | 'applied' | 'skipped' | 'failed';
+type DocumentDetailField = 'documentDate' | 'vendor' | 'documentNumber' | 'totalAmount' | 'currency';
+type ReviewFilter = 'all' | 'needs-review';
+type FileSort = 'added' | 'confidence';
+
+const SESSION_SAVE_DELAY_MS = 1000;
+const DEFAULT_AUTO_ACCEPT_THRESHOLD = 0.7;
+const DEFAULT_FOLDERS = ['Invoices', 'Receipts', 'Personal Photos', 'Work Documents', 'Travel'];
+const FALLBACK_FOLDER = 'Miscellaneous';
+// Rejected folders are only replaced by an existing one whose name is at least this similar
+const MIN_FOLDER_NAME_SIMILARITY = 0.5;
+const MAX_PROMPT_EXAMPLES = 5;
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const MAX_SHOWN_ARCHIVE_WARNINGS = 10;
+// How many added files are hashed and read at the same time
+const FILE_READ_CONCURRENCY = 4;
+const ORGANIZED_ZIP_NAME = 'organized-files.zip';
+
+function newFolderId(): string {
+  return crypto.randomUUID();
+}
 
 interface AppFile {
   id: string; // Unique ID for tracking
@@ -13,11 +98,17 @@ interface AppFile {
   name: string;
   type: string;
   size: number;
-  dataUrl: string;
+  previewUrl: string; // Object URL for image previews, '' for other files; revoked when the file is removed
   safeUrl: SafeResourceUrl;
-  base64Data: string;
-  originalPath: string; // e.g., "ToSort/invoice-scan.pdf"
+  originalPath: string; // e.g., "ToSort/invoice-scan.pdf", or "ToSort/bundle.zip/invoice-scan.pdf" inside an archive
+  archive?: ArchiveLocation; // Set for files that were added inside a ZIP archive
+  contentHash?: string; // SHA-256 of the contents, used to look up cached analysis results
+  perceptualHash?: string; // Images only, see differenceHash()
+  exifDate?: number; // JPEG photos only, see readExifDate()
   extractedText?: string;
+  extractedBy?: string; // The label of the text extractor that read the file
+  contentStrategy?: string; // How the file was sent for its last analysis, see prepareContent()
+  fileDescription?: string; // Set instead of extractedText when the content couldn't be read
   blob?: Blob; // For docx-preview
   status: FileStatus;
   suggestion?: string; // Original AI suggestion
@@ -25,21 +116,77 @@ interface AppFile {
   tags?: string[];
   summary?: string;
   suggestedName?: string;
+  aiSuggestedName?: string; // suggestedName as it came from the analysis, before templates or edits
+  title?: string;
+  documentDate?: string; // yyyy-mm-dd
+  vendor?: string;
+  totalAmount?: string; // e.g. "1234.50"
+  currency?: string;
+  documentNumber?: string;
+  confidence?: number; // 0 to 1; unset for files analyzed before confidence scores existed
+  alternatives?: FolderAlternative[]; // Other folders the AI considered, best first
+  reviewed?: boolean; // The user accepted or changed the folder; false if it has to be checked again, e.g. after its folder was removed
+  proposedFolder?: string; // A new folder the AI came up with in strict taxonomy mode, awaiting approval
   useNewName: boolean;
+  cached?: boolean; // The analysis result was reused from the cache
+  skipCache?: boolean; // Set by "Re-analyze" to ignore a cached result once
+  duplicateOf?: string; // ID of the copy that is kept; duplicates are not analyzed
+  possibleDuplicateOf?: string; // ID of a file that is very alike; only becomes duplicateOf once the user confirms it
+  duplicateKind?: DuplicateKind;
+  duplicateDismissed?: boolean; // The user said this file is not a duplicate
+  matchedRule?: string; // Name of the rule that classified the file instead of the AI
   errorMessage?: string;
+  errorCategory?: AnalysisErrorCategory; // Only set when the AI analysis itself failed, which makes the file retryable
+  retryAttempt?: number; // Set while an analysis is being retried
+  applyStatus?: ApplyStatus; // Outcome of "Apply now" for this file
+  applyMessage?: string;
 }
 
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
-  imports: [CommonModule, PdfViewerComponent, DocxViewerComponent],
+  imports: [CommonModule, PdfViewerComponent, DocxViewerComponent, RulesEditorComponent, FolderTreeEditorComponent],
 })
 export class AppComponent {
-  private geminiService = inject(GeminiService);
+  readonly analysisProviders = inject(ANALYSIS_PROVIDERS);
   private sanitizer: DomSanitizer = inject(DomSanitizer);
+  private fileSystemAccess = inject(FileSystemAccessService);
+  private sessionStore = inject(SessionStoreService);
+  private analysisCache = inject(AnalysisCacheService);
+  private correctionExamplesStore = inject(CorrectionExamplesService);
+  readonly ocr = inject(OcrService);
+
+  readonly canUseFileSystemAccess = this.fileSystemAccess.isSupported;
+
+  // An empty model or base URL means the selected provider's default
+  providerId = signal<AnalysisProviderId>('gemini');
+  providerModel = signal('');
+  providerBaseUrl = signal('');
+  providerApiKey = signal('');
+
+  selectedProvider = computed(() => {
+    return this.analysisProviders.find(p => p.id === this.providerId()) ?? this.analysisProviders[0];
+  });
 
-  folders = signal('Invoices, Receipts, Personal Photos, Work Documents, Travel');
+  private providerSettings = computed<ProviderSettings>(() => {
+    const provider = this.selectedProvider();
+    return {
+      model: this.providerModel().trim() || provider.defaultModel,
+      baseUrl: this.providerBaseUrl().trim() || provider.defaultBaseUrl,
+      apiKey: this.providerApiKey().trim(),
+    };
+  });
+
+  folderTree = signal<FolderNode[]>(buildFolderTree(DEFAULT_FOLDERS, newFolderId));
+  // When set, folders the AI invents are held for approval instead of being added right away
+  strictTaxonomy = signal(false);
+  // Folders and names the user chose instead of the AI's, shown to the AI as examples. Shared by all sessions.
+  correctionExamples = signal<CorrectionExample[]>([]);
+  learnFromCorrections = signal(true);
+  rules = signal<FileRule[]>([]); // Applied in order before any file is sent to the AI
+  filenameTemplate = signal(''); // e.g. "{date:yyyy-MM-dd}_{vendor}_{originalName}"; empty keeps the AI's names
+  readonly filenameTemplateTokens = FILENAME_TEMPLATE_TOKENS;
   files = signal<AppFile[]>([]);
   isProcessing = signal(false);
   isDragging = signal(false);
@@ -50,6 +197,43 @@ export class AppComponent {
   manualSourcePath = signal('');
   manualDestinationPath = signal('');
 
+  // Applied the next time a source folder is selected
+  includeSubfolders = signal(false);
+  maxScanDepth = signal(3);
+  includePatterns = signal('');
+  excludePatterns = signal('');
+
+  // Only set when the folders were picked with the File System Access API, which allows "Apply now"
+  sourceDirectoryHandle = signal<FileSystemDirectoryHandle | null>(null);
+  destinationDirectoryHandle = signal<FileSystemDirectoryHandle | null>(null);
+  isApplying = signal(false);
+  scriptTarget = signal<ScriptTarget>('powershell');
+  scriptDryRun = signal(false);
+  allowOverwrite = signal(false);
+  writeSidecars = signal(false);
+  zipIncludeManifest = signal(true);
+  zipProgress = signal<{ written: number; total: number } | null>(null); // Set while the organized ZIP is written
+  collisionStrategy = signal<CollisionStrategy>('suffix');
+  duplicateHandling = signal<DuplicateHandling>('move-to-folder');
+
+  // Results the AI is less sure about than this need to be reviewed before they are exported
+  autoAcceptThreshold = signal(DEFAULT_AUTO_ACCEPT_THRESHOLD);
+  contentBudget = signal<ContentBudget>(DEFAULT_CONTENT_BUDGET);
+  readonly contentBudgetFields: { key: keyof ContentBudget; label: string; step: number }[] = [
+    { key: 'maxUploadMb', label: 'Upload limit (MB)', step: 0.5 },
+    { key: 'maxTextTokens', label: 'Text limit (tokens)', step: 1000 },
+    { key: 'pdfTextPages', label: 'PDF pages read as text', step: 1 },
+    { key: 'pdfSamplePages', label: 'Sample pages of scans', step: 1 },
+    { key: 'maxImageDimension', label: 'Image size (px)', step: 256 },
+  ];
+  // Text recognition in scans and photos, which runs in the browser
+  ocrEnabled = signal(false);
+  ocrLanguages = signal<string[]>(['eng']);
+  ocrTextOnly = signal(false);
+  readonly ocrLanguageOptions = OCR_LANGUAGES;
+  reviewFilter = signal<ReviewFilter>('all');
+  fileSort = signal<FileSort>('added');
+
   processedCount = signal(0);
   totalToProcess = signal(0);
   progressPercentage = computed(() => {
@@ -58,20 +242,193 @@ export class AppComponent {
     return (this.processedCount() / total) * 100;
   });
 
+  // Number of files analyzed in parallel; can be changed while a run is in progress
+  concurrency = signal(5);
+  isPaused = signal(false);
+  filesPerMinute = signal<number | null>(null);
+  private workQueue: WorkQueue<AppFile> | null = null;
+  private processingStartedAt = 0;
+  private pausedAt: number | null = null;
+  private pausedMs = 0; // Time spent paused, which doesn't count towards throughput
+
+  // Added files that are being hashed and read, before they can be analyzed
+  readProgress = signal<{ done: number; total: number } | null>(null);
+  private readBatch = 0; // Increased whenever the files are replaced, so that reads for the old files are dropped
+  private readQueue: WorkQueue<unknown> | null = null;
+
+  etaLabel = computed(() => {
+    const perMinute = this.filesPerMinute();
+    if (this.isPaused() || !perMinute) return null;
+    const seconds = Math.round(((this.totalToProcess() - this.processedCount()) / perMinute) * 60);
+    if (seconds < 60) return `~${seconds}s left`;
+    return `~${Math.floor(seconds / 60)}m ${seconds % 60}s left`;
+  });
+
+  // The session being edited is saved automatically; it is created once the first files are added
+  sessions = signal<SessionSummary[]>([]);
+  currentSession = signal<SessionSummary | null>(null);
+  private persistedBlobIds = new Set<string>(); // Files whose contents are already stored in the current session
+  private pendingSessionSave: { timer: ReturnType<typeof setTimeout>; state: SessionState } | null = null;
+
+  private sessionState = computed<SessionState>(() => ({
+    files: this.files().map(f => this.toStoredFile(f)),
+    folderTree: this.folderTree(),
+    rules: this.rules(),
+    filenameTemplate: this.filenameTemplate(),
+    sourceFolderName: this.sourceFolderName(),
+    destinationFolderName: this.destinationFolderName(),
+    manualSourcePath: this.manualSourcePath(),
+    manualDestinationPath: this.manualDestinationPath(),
+    sourceDirectoryHandle: this.sourceDirectoryHandle(),
+    destinationDirectoryHandle: this.destinationDirectoryHandle(),
+    providerId: this.providerId(),
+    providerModel: this.providerModel(),
+    providerBaseUrl: this.providerBaseUrl(),
+    scriptTarget: this.scriptTarget(),
+    collisionStrategy: this.collisionStrategy(),
+    duplicateHandling: this.duplicateHandling(),
+    autoAcceptThreshold: this.autoAcceptThreshold(),
+    contentBudget: this.contentBudget(),
+    ocrEnabled: this.ocrEnabled(),
+    ocrLanguages: this.ocrLanguages(),
+    ocrTextOnly: this.ocrTextOnly(),
+    strictTaxonomy: this.strictTaxonomy(),
+    learnFromCorrections: this.learnFromCorrections(),
+  }));
+
+  constructor() {
+    if (this.correctionExamplesStore.isSupported) {
+      this.correctionExamplesStore.list().then(examples => this.correctionExamples.set(examples));
+    }
+    if (!this.sessionStore.isSupported) return;
+    effect(() => {
+      const state = this.sessionState();
+      untracked(() => this.scheduleSessionSave(state));
+    });
+    this.restoreLatestSession();
+  }
+
   foldersForSelect = computed(() => {
-    const folderList = this.folders().split(',').map(f => this.sanitizeFolderPath(f)).filter(f => f);
+    const folderList = flattenFolderTree(this.folderTree()).map(entry => entry.path);
     const uniqueFolders: string[] = Array.from(new Set(folderList));
-    if (!uniqueFolders.find(f => f.toLowerCase() === 'miscellaneous')) {
-        uniqueFolders.push('Miscellaneous');
+    if (!uniqueFolders.find(f => f.toLowerCase() === FALLBACK_FOLDER.toLowerCase())) {
+        uniqueFolders.push(FALLBACK_FOLDER);
     }
     return uniqueFolders.sort();
   });
 
-  onFoldersInput(event: Event): void {
-    this.folders.set((event.target as HTMLTextAreaElement).value);
-    // Manually editing folders voids the scanned destination folder name
-    this.destinationFolderName.set(null);
-    this.manualDestinationPath.set('');
+  // The folders as offered to the AI, with the descriptions and keywords from the folder editor
+  private folderOptions = computed<FolderOption[]>(() => {
+    const nodesByPath = new Map(flattenFolderTree(this.folderTree()).map(entry => [entry.path, entry.node]));
+    return this.foldersForSelect().map(path => {
+      const node = nodesByPath.get(path);
+      return {
+        path,
+        description: node?.description ?? '',
+        keywords: node ? splitCommaList(node.keywords) : [],
+      };
+    });
+  });
+
+  private get scanOptions(): SourceScanOptions {
+    return {
+      includeSubfolders: this.includeSubfolders(),
+      maxDepth: this.maxScanDepth(),
+      includePatterns: parsePatternList(this.includePatterns()),
+      excludePatterns: parsePatternList(this.excludePatterns()),
+    };
+  }
+
+  toggleIncludeSubfolders(): void {
+    this.includeSubfolders.update(v => !v);
+  }
+
+  onMaxScanDepthInput(event: Event): void {
+    const depth = parseInt((event.target as HTMLInputElement).value, 10);
+    this.maxScanDepth.set(Number.isFinite(depth) && depth > 0 ? depth : 1);
+  }
+
+  onIncludePatternsInput(event: Event): void {
+    this.includePatterns.set((event.target as HTMLInputElement).value);
+  }
+
+  onExcludePatternsInput(event: Event): void {
+    this.excludePatterns.set((event.target as HTMLInputElement).value);
+  }
+
+  onProviderChange(event: Event): void {
+    this.providerId.set((event.target as HTMLSelectElement).value as AnalysisProviderId);
+    // Models, servers and keys are specific to a provider
+    this.providerModel.set('');
+    this.providerBaseUrl.set('');
+    this.providerApiKey.set('');
+  }
+
+  onProviderModelInput(event: Event): void {
+    this.providerModel.set((event.target as HTMLInputElement).value);
+  }
+
+  onProviderBaseUrlInput(event: Event): void {
+    this.providerBaseUrl.set((event.target as HTMLInputElement).value);
+  }
+
+  onProviderApiKeyInput(event: Event): void {
+    this.providerApiKey.set((event.target as HTMLInputElement).value);
+  }
+
+  // Renaming or moving a folder moves the files that were assigned to it, too
+  onFolderTreeChange(tree: FolderNode[]): void {
+    const oldPaths = folderPathsById(this.folderTree());
+    const newPaths = folderPathsById(tree);
+    const remainingPaths = new Set(newPaths.values());
+    const renamed = new Map<string, string>();
+    const removed = new Set<string>();
+    oldPaths.forEach((oldPath, id) => {
+      const newPath = newPaths.get(id);
+      if (newPath && newPath !== oldPath) renamed.set(oldPath, newPath);
+      // An imported tree has new IDs, so a folder only counts as removed if its path is gone as well
+      else if (!newPath && !remainingPaths.has(oldPath)) removed.add(oldPath);
+    });
+
+    this.folderTree.set(tree);
+    if (renamed.size === 0 && removed.size === 0) return;
+
+    const ancestors = (path: string) => path.split('/').map((_, i, parts) => parts.slice(0, i + 1).join('/'));
+    const isRemoved = (path: string | undefined) => !!path && ancestors(path).some(ancestor => removed.has(ancestor));
+    // The closest folder above the removed one that is left, if any
+    const remainingParent = (path: string) => ancestors(path)
+      .reverse()
+      .map(ancestor => renamed.get(ancestor) ?? ancestor)
+      .find(ancestor => remainingPaths.has(ancestor));
+
+    this.files.update(currentFiles =>
+      currentFiles.map(f => {
+        if (isRemoved(f.finalFolder) || isRemoved(f.proposedFolder)) {
+          // Files in a removed folder go up to its parent, or aren't moved at all, and have to be reviewed again
+          const finalFolder = isRemoved(f.finalFolder) ? remainingParent(f.finalFolder!) : f.finalFolder && (renamed.get(f.finalFolder) ?? f.finalFolder);
+          return { ...f, finalFolder, proposedFolder: undefined, reviewed: false };
+        }
+        const newPath = f.finalFolder && renamed.get(f.finalFolder);
+        return newPath ? { ...f, finalFolder: newPath } : f;
+      })
+    );
+  }
+
+  // Lets a team share one canonical folder structure
+  downloadFolderStructure(): void {
+    this.downloadTextFile('folder-structure.json', exportFolderTree(this.folderTree()), 'application/json');
+  }
+
+  async importFolderStructure(event: Event): Promise<void> {
+    const element = event.target as HTMLInputElement;
+    const file = element.files?.[0];
+    element.value = '';
+    if (!file) return;
+    try {
+      this.onFolderTreeChange(importFolderTree(await file.text(), newFolderId));
+    } catch (error) {
+      alert(`Could not import the folder structure: ${error instanceof Error ? error.message : error}`);
+    }
   }
 
   handleFileSelect(event: Event): void {
@@ -80,8 +437,9 @@ export class AppComponent {
     if (selectedFiles) {
       // Selecting individual files voids the source folder name
       this.sourceFolderName.set(null);
+      this.sourceDirectoryHandle.set(null);
       this.manualSourcePath.set('');
-      this.files.set([]); // Clear existing files for a clean slate
+      this.startNewSession(); // Clear existing files for a clean slate
       this.processFiles(Array.from(selectedFiles));
     }
     if (element) element.value = '';
@@ -93,6 +451,7 @@ export class AppComponent {
     if (!selectedFiles || selectedFiles.length === 0) return;
     
     const allFiles = Array.from(selectedFiles);
+    this.sourceDirectoryHandle.set(null);
 
     // Extract source folder name from the first file's path
     const firstFileRelativePath = (allFiles[0] as any).webkitRelativePath;
@@ -105,20 +464,20 @@ export class AppComponent {
       }
     }
 
-    // Filter for top-level files of supported types
+    // Filter for files of supported types that match the scan options
+    const scanOptions = this.scanOptions;
     const filesToProcess = allFiles.filter(file => {
       const relativePath = (file as any).webkitRelativePath;
       if (!relativePath) return false;
       
-      const parts = relativePath.split('/');
-      // Top-level files are in the directory selected, so the path is "FolderName/file.ext"
-      const isTopLevel = parts.length === 2;
+      // Paths look like "FolderName/sub/file.ext", the scan options apply below "FolderName"
+      const pathBelowRoot = relativePath.split('/').slice(1).join('/');
       
-      return isTopLevel && this.isSupportedFileType(file.type);
+      return isIncludedInScan(pathBelowRoot, scanOptions) && !isSystemFile(file.name);
     });
 
     // When selecting a new source, clear old files
-    this.files.set([]);
+    this.startNewSession();
     this.processFiles(filesToProcess);
     if (element) element.value = '';
   }
@@ -129,6 +488,7 @@ export class AppComponent {
     if (!selectedFiles || selectedFiles.length === 0) return;
 
     const allFiles = Array.from(selectedFiles);
+    this.destinationDirectoryHandle.set(null);
 
     // Extract destination folder name from the first file's path
     const firstFileRelativePath = (allFiles[0] as any).webkitRelativePath;
@@ -161,17 +521,49 @@ export class AppComponent {
       }
     }
 
-    if (folderNames.size > 0) {
-      // Overwrite existing folders with the scanned structure
-      this.folders.set([...new Set(Array.from(folderNames))].join(', '));
-    } else {
-      // If no subfolders were found, clear it to avoid confusion.
-      this.folders.set('');
-    }
+    this.setScannedFolders(Array.from(folderNames));
     
     if (element) element.value = '';
   }
 
+  private setScannedFolders(folderNames: string[]): void {
+    // Overwrite existing folders with the scanned structure. If no subfolders were found, this clears it to avoid confusion.
+    this.folderTree.set(buildFolderTree(folderNames, newFolderId));
+  }
+
+  // File System Access API counterparts of the folder inputs above. The handles they keep allow "Apply now".
+  async pickSourceFolder(): Promise<void> {
+    const directory = await this.fileSystemAccess.pickDirectory('source');
+    if (!directory) return;
+
+    const scanOptions = this.scanOptions;
+    const pickedFiles = (await this.fileSystemAccess.listFiles(directory, scanOptions.includeSubfolders ? scanOptions.maxDepth : 0))
+      .filter(p => isIncludedInScan(p.relativePath.split('/').slice(1).join('/'), scanOptions));
+    const relativePaths = new Map(pickedFiles.map(p => [p.file, p.relativePath]));
+
+    this.sourceDirectoryHandle.set(directory);
+    this.sourceFolderName.set(directory.name);
+    this.manualSourcePath.set(directory.name);
+
+    const filesToProcess = pickedFiles.map(p => p.file).filter(file => !isSystemFile(file.name));
+
+    // When selecting a new source, clear old files
+    this.startNewSession();
+    this.processFiles(filesToProcess, file => relativePaths.get(file) ?? file.name);
+  }
+
+  async pickDestinationFolder(): Promise<void> {
+    const directory = await this.fileSystemAccess.pickDirectory('destination');
+    if (!directory) return;
+
+    const folderPaths = await this.fileSystemAccess.listFolderPaths(directory);
+
+    this.destinationDirectoryHandle.set(directory);
+    this.destinationFolderName.set(directory.name);
+    this.manualDestinationPath.set(directory.name);
+    this.setScannedFolders(folderPaths);
+  }
+
   handleFileDrop(event: DragEvent): void {
     event.preventDefault();
     event.stopPropagation();
@@ -180,8 +572,9 @@ export class AppComponent {
     if (droppedFiles) {
         // Drag-and-drop is for individual files, so clear folder names
         this.sourceFolderName.set(null);
+        this.sourceDirectoryHandle.set(null);
         this.manualSourcePath.set('');
-        this.files.set([]);
+        this.startNewSession();
         this.processFiles(Array.from(droppedFiles));
     }
   }
@@ -198,214 +591,456 @@ export class AppComponent {
     this.isDragging.set(false);
   }
 
-  private isSupportedFileType(type: string): boolean {
-    const supportedDocTypes = [
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
-    ];
-    return type.startsWith('image/') || supportedDocTypes.includes(type);
+  // Images and PDFs are sent to the AI as they are; every other file is sent as text, see findTextExtractor()
+  private isSentAsFileData(type: string): boolean {
+    return type.startsWith('image/') || type === 'application/pdf';
   }
 
-  private processFiles(selectedFiles: File[]): void {
-    const filesToProcess = Array.from(selectedFiles);
-    const filesForSignal: AppFile[] = [];
-    let processedCount = 0;
-
-    const checkAndUpdateSignal = () => {
-      processedCount++;
-      if (processedCount === filesToProcess.length) {
-        this.files.update(current => [...current, ...filesForSignal]);
-      }
-    };
-
-    if (filesToProcess.length === 0) return;
-
-    for (const file of filesToProcess) {
-      const id = `${file.name}-${file.size}-${Date.now()}`;
-      const originalPath = (file as any).webkitRelativePath || file.name;
-
-      if (!this.isSupportedFileType(file.type)) {
-        filesForSignal.push({
-            id,
-            originalFile: file,
-            name: file.name,
-            type: file.type,
-            size: file.size,
-            dataUrl: '',
-            safeUrl: this.sanitizer.bypassSecurityTrustResourceUrl(''),
-            base64Data: '',
-            originalPath,
-            status: 'error',
-            useNewName: false,
-            errorMessage: 'Only image, PDF & .docx files can be analyzed.'
-        });
-        checkAndUpdateSignal();
+  // The files inside ZIP archives are added one by one. An archive that can't be read is added as a file itself.
+  private async expandArchives(
+    files: File[],
+    getRelativePath: (file: File) => string
+  ): Promise<{ file: File; originalPath: string; archive?: ArchiveLocation }[]> {
+    const expanded: { file: File; originalPath: string; archive?: ArchiveLocation }[] = [];
+    const warnings: string[] = [];
+    for (const file of files) {
+      const originalPath = getRelativePath(file);
+      if (!isZipArchive(file)) {
+        expanded.push({ file, originalPath });
         continue;
       }
+      try {
+        const archive = await expandZipArchive(file);
+        warnings.push(...archive.warnings.map(warning => `${originalPath}: ${warning}`));
+        for (const { file: entryFile, entryPath } of archive.files) {
+          expanded.push({
+            file: entryFile,
+            originalPath: `${originalPath}/${entryPath.join('/')}`,
+            archive: { archivePath: originalPath, entryPath },
+          });
+        }
+      } catch (error) {
+        console.error(`Could not open the archive ${originalPath}:`, error);
+        warnings.push(`${originalPath} could not be opened and is classified by its name.`);
+        expanded.push({ file, originalPath });
+      }
+    }
 
-      if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-          const reader = new FileReader();
-          reader.onload = async (e: any) => {
-              const arrayBuffer = e.target.result;
-              try {
-                  const textResult = await (window as any).mammoth.extractRawText({ arrayBuffer });
-
-                  filesForSignal.push({
-                      id,
-                      originalFile: file,
-                      name: file.name,
-                      type: file.type,
-                      size: file.size,
-                      dataUrl: '',
-                      safeUrl: this.sanitizer.bypassSecurityTrustResourceUrl(''),
-                      base64Data: '',
-                      originalPath,
-                      extractedText: textResult.value,
-                      blob: file,
-                      status: 'pending',
-                      useNewName: true,
-                  });
-              } catch (error) {
-                  filesForSignal.push({
-                      id,
-                      originalFile: file,
-                      name: file.name,
-                      type: file.type,
-                      size: file.size,
-                      dataUrl: '',
-                      safeUrl: this.sanitizer.bypassSecurityTrustResourceUrl(''),
-                      base64Data: '',
-                      originalPath,
-                      status: 'error',
-                      useNewName: false,
-                      errorMessage: 'Could not read content from .docx file.',
-                  });
-              } finally {
-                  checkAndUpdateSignal();
-              }
-          };
-          reader.readAsArrayBuffer(file);
-      } else {
-          const reader = new FileReader();
-          reader.onload = (e: any) => {
-              const dataUrl = e.target.result;
-              const base64Data = dataUrl.split(',')[1];
-              filesForSignal.push({
-                  id,
-                  originalFile: file,
-                  name: file.name,
-                  type: file.type,
-                  size: file.size,
-                  dataUrl,
-                  safeUrl: this.sanitizer.bypassSecurityTrustResourceUrl(dataUrl),
-                  base64Data,
-                  originalPath,
-                  status: 'pending',
-                  useNewName: true,
-              });
-              checkAndUpdateSignal();
-          };
-          reader.readAsDataURL(file);
+    if (warnings.length > 0) {
+      const more = warnings.length > MAX_SHOWN_ARCHIVE_WARNINGS ? `\n...and ${warnings.length - MAX_SHOWN_ARCHIVE_WARNINGS} more` : '';
+      alert(`Not everything in the ZIP archives could be added:\n\n${warnings.slice(0, MAX_SHOWN_ARCHIVE_WARNINGS).join('\n')}${more}`);
+    }
+    return expanded;
+  }
+
+  private async processFiles(
+    selectedFiles: File[],
+    getRelativePath: (file: File) => string = file => (file as any).webkitRelativePath || file.name
+  ): Promise<void> {
+    const batch = this.readBatch;
+    const filesToProcess = await this.expandArchives(selectedFiles, getRelativePath);
+    if (filesToProcess.length === 0 || batch !== this.readBatch) return;
+
+    // Hashing and text extraction hold a whole file in memory, so only a few files are read at a time. Each file is
+    // listed as soon as it is read; duplicates are looked for once all of them are there.
+    this.readProgress.set({ done: 0, total: filesToProcess.length });
+    const queue = new WorkQueue(filesToProcess.map((entry, index) => ({ ...entry, index })), {
+      concurrency: FILE_READ_CONCURRENCY,
+      key: entry => String(entry.index),
+      worker: async (entry, signal) => {
+        const file = await this.readAddedFile(entry.file, entry.originalPath, entry.archive);
+        if (signal.aborted) {
+          this.revokePreviewUrls([file]);
+          return;
+        }
+        this.files.update(current => [...current, file]);
+        this.readProgress.update(progress => progress && { ...progress, done: progress.done + 1 });
+      },
+    });
+    this.readQueue = queue;
+    await queue.done;
+    if (batch !== this.readBatch) return;
+    this.readQueue = null;
+    this.readProgress.set(null);
+    this.files.update(current => this.markDuplicates(current));
+  }
+
+  // Drops the files that are still being read, e.g. when another folder is picked in the meantime
+  private cancelFileReads(): void {
+    this.readBatch++;
+    this.readQueue?.cancel();
+    this.readQueue = null;
+    this.readProgress.set(null);
+  }
+
+  private async readAddedFile(file: File, originalPath: string, archive: ArchiveLocation | undefined): Promise<AppFile> {
+    const extractor = findTextExtractor(file);
+    let extractedText = '';
+    if (extractor) {
+      try {
+        extractedText = (await extractor.extract(file)).trim();
+      } catch (error) {
+        console.error(`Could not read ${originalPath} as ${extractor.label}:`, error);
       }
     }
+    const contentHash = this.analysisCache.isSupported ? await sha256Hex(file).catch(() => undefined) : undefined;
+    const isImage = file.type.startsWith('image/');
+    // Images and PDFs are only read when they are analyzed, see prepareContent()
+    const isSentAsFileData = !extractor && this.isSentAsFileData(file.type);
+    const previewUrl = isImage ? URL.createObjectURL(file) : '';
+    return {
+      // Nested folders often hold files with the same name and size, so the path is part of the ID
+      id: `${originalPath}-${file.size}-${Date.now()}`,
+      originalFile: file,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      previewUrl,
+      safeUrl: this.sanitizer.bypassSecurityTrustResourceUrl(previewUrl),
+      originalPath,
+      archive,
+      contentHash,
+      // Near-duplicates and photo dates only matter for images, so other files aren't decoded for them
+      perceptualHash: isImage ? await differenceHash(file).catch(() => undefined) : undefined,
+      exifDate: file.type === 'image/jpeg' ? await readExifDate(file).catch(() => undefined) : undefined,
+      extractedText: extractedText || undefined,
+      extractedBy: extractedText ? extractor?.label : undefined,
+      // Files without readable content are classified by their name and details instead
+      fileDescription: extractedText || isSentAsFileData ? undefined : describeFile({
+        name: file.name, path: originalPath, type: file.type, size: file.size, lastModified: file.lastModified,
+      }),
+      blob: file.type === DOCX_TYPE ? file : undefined,
+      status: 'pending',
+      useNewName: true,
+    };
   }
 
   removeFile(fileId: string): void {
+    this.cancelFile(fileId);
+    // Another copy takes over when the kept copy of a duplicate group is removed
+    const nextKept = this.files().find(f => f.duplicateOf === fileId || f.possibleDuplicateOf === fileId);
+    if (nextKept) this.keepDuplicate(fileId, nextKept.id);
+    this.revokePreviewUrls(this.files().filter(f => f.id === fileId));
     this.files.update(currentFiles => currentFiles.filter(f => f.id !== fileId));
   }
 
   clearAll(): void {
-    this.files.set([]);
+    this.cancelProcessing();
+    this.startNewSession();
     this.sourceFolderName.set(null);
     this.destinationFolderName.set(null);
+    this.sourceDirectoryHandle.set(null);
+    this.destinationDirectoryHandle.set(null);
     this.manualSourcePath.set('');
     this.manualDestinationPath.set('');
   }
 
   async organizeFiles(): Promise<void> {
-    if (this.isProcessing()) return;
+    if (this.isProcessing() || this.readProgress()) return;
 
-    const filesToProcess = this.files().filter(f => f.status === 'pending');
-    if (filesToProcess.length === 0) return;
+    const pendingFiles = this.files().filter(f => f.status === 'pending' && !f.duplicateOf);
+    if (pendingFiles.length === 0) return;
 
-    this.isProcessing.set(true);
-    this.totalToProcess.set(filesToProcess.length);
-    this.processedCount.set(0);
-
-    const folderList = this.foldersForSelect();
+    const folderList = this.folderOptions();
     if (folderList.length === 0) {
         alert('Please define at least one folder category.');
+        return;
+    }
+
+    this.isProcessing.set(true);
+    const filesToProcess = this.applyRules(pendingFiles);
+    if (filesToProcess.length === 0) {
         this.isProcessing.set(false);
         return;
     }
+    this.totalToProcess.set(filesToProcess.length);
+    this.processedCount.set(0);
+
+    const provider = this.selectedProvider();
+    const settings = this.providerSettings();
+    const examples = this.learnFromCorrections() ? this.correctionExamples() : [];
+    const contentBudget = this.contentBudget();
+    const languages = this.ocrLanguages();
+    const ocr: OcrOptions | undefined = this.ocrEnabled() && this.ocr.isSupported
+        ? { recognize: image => this.ocr.recognize(image, languages), textOnly: this.ocrTextOnly() }
+        : undefined;
+    // The languages also help with files that have no text, e.g. for the names of new folders
+    const languageNames = ocr ? ocrLanguageNames(languages) : [];
 
-    const CONCURRENCY_LIMIT = 5;
-    
     this.files.update(current =>
-        current.map(f => (f.status === 'pending' ? { ...f, status: 'processing' } : f))
+        current.map(f => (filesToProcess.includes(f) ? { ...f, status: 'queued' } : f))
     );
-    
-    for (let i = 0; i < filesToProcess.length; i += CONCURRENCY_LIMIT) {
-        const batch = filesToProcess.slice(i, i + CONCURRENCY_LIMIT);
-        
-        await Promise.all(batch.map(async (file) => {
-            try {
-                const result = await this.geminiService.analyzeFile(file, folderList);
-                
-                const suggestedFolder = this.sanitizeFolderPath(result.folder);
-                const suggestedFilename = this.sanitizeFilename(result.suggestedFilename);
-
-                const existingFolders = this.foldersForSelect();
-                const match = existingFolders.find(f => f.toLowerCase() === suggestedFolder.toLowerCase());
-                
-                let finalFolder: string;
-                if (match) {
-                    finalFolder = match;
-                } else {
-                    finalFolder = suggestedFolder;
-                    this.folders.update(currentFolders => {
-                        const currentList = currentFolders.split(',').map(f => this.sanitizeFolderPath(f)).filter(f => f);
-                        if (!currentList.find(f => f.toLowerCase() === finalFolder.toLowerCase())) {
-                            return [...currentList, finalFolder].join(', ');
-                        }
-                        return currentFolders;
-                    });
+
+    this.isPaused.set(false);
+    this.filesPerMinute.set(null);
+    this.processingStartedAt = Date.now();
+    this.pausedAt = null;
+    this.pausedMs = 0;
+
+    this.workQueue = new WorkQueue(filesToProcess, {
+        concurrency: this.concurrency(),
+        key: file => file.id,
+        worker: (file, signal) => this.analyzeQueuedFile(file, provider, folderList, examples, settings, contentBudget, ocr, languageNames, signal),
+    });
+    await this.workQueue.done;
+
+    this.workQueue = null;
+    this.isPaused.set(false);
+    this.isProcessing.set(false);
+  }
+
+  private async analyzeQueuedFile(
+    file: AppFile,
+    provider: AnalysisProvider,
+    folderList: FolderOption[],
+    examples: CorrectionExample[],
+    settings: ProviderSettings,
+    contentBudget: ContentBudget,
+    ocr: OcrOptions | undefined,
+    languageNames: string[],
+    signal: AbortSignal
+  ): Promise<void> {
+    const MAX_ATTEMPTS = 4;
+    const relevantExamples = selectRelevantExamples(
+      examples,
+      { name: file.name, type: file.type, text: file.extractedText },
+      MAX_PROMPT_EXAMPLES
+    );
+
+    this.files.update(current =>
+        current.map(f => f.id === file.id ? { ...f, status: 'processing' } : f)
+    );
+
+    try {
+        // Examples are not part of the key: they change with every correction, which would make the cache useless
+        const cacheKey = file.contentHash && this.analysisCache.isSupported
+            ? await this.analysisCache.cacheKey(file.contentHash, folderList, provider.id, settings.model)
+            : null;
+        const cachedResult = cacheKey && !file.skipCache ? await this.analysisCache.get(cacheKey) : null;
+
+        let content: FileForProcessing | null = null;
+        if (!cachedResult) {
+            const prepared = await prepareContent(file, contentBudget, ocr);
+            content = { ...prepared.file, languages: languageNames };
+            // Recognized text is kept, so that it is shown with the file and not recognized again
+            const ocrText = prepared.ocrText;
+            this.files.update(current =>
+                current.map(f => f.id === file.id
+                    ? { ...f, contentStrategy: prepared.strategy, ...(ocrText ? { extractedText: ocrText, extractedBy: OCR_TEXT_LABEL } : {}) }
+                    : f)
+            );
+        }
+
+        const result = cachedResult ?? await withRetry(() => provider.analyzeFile(content!, folderList, relevantExamples, settings, signal), {
+            maxAttempts: MAX_ATTEMPTS,
+            baseDelayMs: 1000,
+            maxDelayMs: 30000,
+            shouldRetry: isRetryableAnalysisError,
+            retryAfterMs: error => error instanceof AnalysisError ? error.retryAfterMs : undefined,
+            onRetry: attempt => this.files.update(current =>
+                current.map(f => f.id === file.id ? { ...f, retryAttempt: attempt } : f)
+            ),
+            signal,
+        });
+        if (cacheKey && !cachedResult) {
+            this.analysisCache.put(cacheKey, result);
+        }
+
+        this.applyAnalysisResult(file.id, result, { cached: cachedResult !== null, matchedRule: undefined });
+    } catch (error) {
+        if (signal.aborted) {
+            this.returnToPending([file.id]);
+            return;
+        }
+        this.files.update(current =>
+            current.map(f =>
+                f.id === file.id
+                ? {
+                    ...f,
+                    status: 'error',
+                    retryAttempt: undefined,
+                    errorMessage: describeAnalysisError(error),
+                    errorCategory: errorCategoryOf(error),
+                    }
+                : f
+            )
+        );
+    }
+
+    this.processedCount.update(c => c + 1);
+    const activeMinutes = (Date.now() - this.processingStartedAt - this.pausedMs) / 60000;
+    this.filesPerMinute.set(this.processedCount() / activeMinutes);
+  }
+
+  // Assigns the folder, tags and name from an AI answer, a cached answer or a rule
+  private applyAnalysisResult(fileId: string, result: AnalysisResult, changes: Partial<AppFile>): void {
+    const suggestedFolder = sanitizeFolderPath(result.folder);
+    const suggestedFilename = sanitizeFilename(result.suggestedFilename);
+
+    const isExistingFolder = this.foldersForSelect().some(f => f.toLowerCase() === suggestedFolder.toLowerCase());
+    // Folders from rules are the user's own; only the ones the AI came up with need approval
+    const isProposal = !isExistingFolder && this.strictTaxonomy() && !changes.matchedRule;
+    const finalFolder = isProposal ? suggestedFolder : this.addFolder(suggestedFolder);
+    const alternatives = result.alternatives
+      .map(a => ({ folder: sanitizeFolderPath(a.folder), reason: a.reason }))
+      .filter(a => a.folder && a.folder.toLowerCase() !== finalFolder.toLowerCase());
+
+    this.files.update(current =>
+        current.map(f =>
+            f.id === fileId
+            ? {
+                ...f,
+                ...changes,
+                status: 'done',
+                retryAttempt: undefined,
+                skipCache: undefined,
+                suggestion: suggestedFolder,
+                finalFolder: finalFolder,
+                tags: result.tags,
+                summary: result.summary,
+                suggestedName: suggestedFilename,
+                aiSuggestedName: suggestedFilename,
+                title: result.title,
+                documentDate: result.documentDate,
+                vendor: result.vendor,
+                totalAmount: result.totalAmount,
+                currency: result.currency,
+                documentNumber: result.documentNumber,
+                confidence: result.confidence,
+                alternatives,
+                reviewed: undefined,
+                proposedFolder: isProposal ? suggestedFolder : undefined,
                 }
+            : f
+        )
+    );
+  }
+
+  // Returns the existing folder with that name (ignoring case), or adds it to the folder list
+  private addFolder(folder: string): string {
+    const match = this.foldersForSelect().find(f => f.toLowerCase() === folder.toLowerCase());
+    if (match) return match;
+    this.folderTree.update(tree => addFolderPath(tree, folder, newFolderId));
+    return folder;
+  }
 
-                this.files.update(current =>
-                    current.map(f =>
-                        f.id === file.id
-                        ? { 
-                            ...f, 
-                            status: 'done', 
-                            suggestion: suggestedFolder, 
-                            finalFolder: finalFolder,
-                            tags: result.tags, 
-                            summary: result.summary, 
-                            suggestedName: suggestedFilename 
-                            }
-                        : f
-                    )
-                );
-            } catch (error) {
-                this.files.update(current =>
-                    current.map(f =>
-                        f.id === file.id
-                        ? { ...f, status: 'error', errorMessage: 'AI analysis failed.' }
-                        : f
-                    )
-                );
-            } finally {
-                this.processedCount.update(c => c + 1);
-            }
-        }));
+  // Files matched by a rule are classified right away, without an API call
+  private applyRules(files: AppFile[]): AppFile[] {
+    const rules = this.rules();
+    const unmatched: AppFile[] = [];
+    for (const file of files) {
+      const rule = findMatchingRule(rules, {
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        lastModified: file.originalFile.lastModified,
+        extractedText: file.extractedText,
+      });
+      if (!rule) {
+        unmatched.push(file);
+        continue;
+      }
+      const tags = splitCommaList(rule.tags);
+      const suggestedFilename = rule.renameTemplate.trim()
+        ? renderFilenameTemplate(rule.renameTemplate, { ...this.templateContext(file), folder: rule.folder, tags })
+        : file.name;
+      this.applyAnalysisResult(
+        file.id,
+        {
+          folder: rule.folder,
+          tags,
+          summary: '',
+          suggestedFilename,
+          title: '',
+          documentDate: '',
+          vendor: '',
+          totalAmount: '',
+          currency: '',
+          documentNumber: '',
+          confidence: 1,
+          alternatives: [],
+        },
+        { matchedRule: rule.name, cached: undefined, useNewName: !!rule.renameTemplate.trim() }
+      );
     }
+    return unmatched;
+  }
 
-    this.isProcessing.set(false);
+  // Cancelled files go back to "pending" so that the next run picks them up again
+  private returnToPending(fileIds: string[]): void {
+    if (fileIds.length === 0) return;
+    this.files.update(current =>
+        current.map(f =>
+            fileIds.includes(f.id) ? { ...f, status: 'pending', retryAttempt: undefined } : f
+        )
+    );
+    this.totalToProcess.update(total => total - fileIds.length);
+  }
+
+  pauseProcessing(): void {
+    if (!this.workQueue || this.isPaused()) return;
+    this.workQueue.pause();
+    this.pausedAt = Date.now();
+    this.isPaused.set(true);
+  }
+
+  resumeProcessing(): void {
+    if (!this.workQueue || !this.isPaused()) return;
+    this.pausedMs += Date.now() - (this.pausedAt ?? Date.now());
+    this.pausedAt = null;
+    this.isPaused.set(false);
+    this.workQueue.resume();
+  }
+
+  cancelProcessing(): void {
+    if (!this.workQueue) return;
+    this.returnToPending(this.workQueue.cancel().map(f => f.id));
+  }
+
+  cancelFile(fileId: string): void {
+    if (this.workQueue?.cancelItem(fileId)) {
+      this.returnToPending([fileId]);
+    }
+  }
+
+  onConcurrencyInput(event: Event): void {
+    const concurrency = parseInt((event.target as HTMLInputElement).value, 10);
+    this.concurrency.set(Number.isFinite(concurrency) ? Math.min(Math.max(concurrency, 1), 20) : 1);
+    this.workQueue?.setConcurrency(this.concurrency());
+  }
+
+  // Analyzes a file again, even if a result for its contents is cached
+  reanalyzeFile(fileId: string): void {
+    if (this.isProcessing()) return;
+    this.files.update(currentFiles =>
+      currentFiles.map(f =>
+        f.id === fileId
+          ? { ...f, status: 'pending', skipCache: true, cached: undefined, errorMessage: undefined, errorCategory: undefined }
+          : f
+      )
+    );
+    this.organizeFiles();
   }
 
   get canOrganize(): boolean {
-      return !this.isProcessing() && this.files().some(f => f.status === 'pending');
+      return !this.isProcessing() && !this.readProgress() && this.files().some(f => f.status === 'pending' && !f.duplicateOf);
+  }
+
+  retryableFileCount = computed(() => {
+    return this.files().filter(f => f.status === 'error' && f.errorCategory).length;
+  });
+
+  // Re-queues only the files whose analysis failed; files that could not be read stay as they are
+  retryFailed(): void {
+    if (this.isProcessing()) return;
+    this.files.update(currentFiles =>
+      currentFiles.map(f =>
+        f.status === 'error' && f.errorCategory
+          ? { ...f, status: 'pending', errorMessage: undefined, errorCategory: undefined }
+          : f
+      )
+    );
+    this.organizeFiles();
   }
 
   toggleUseNewName(fileId: string): void {
@@ -414,26 +1049,344 @@ export class AppComponent {
             f.id === fileId ? { ...f, useNewName: !f.useNewName } : f
         )
     );
+    this.recordCorrection(fileId);
   }
 
   updateFinalFolder(fileId: string, event: Event): void {
     const newFolder = (event.target as HTMLSelectElement).value;
     this.files.update(currentFiles =>
         currentFiles.map(f =>
-            f.id === fileId ? { ...f, finalFolder: newFolder } : f
+            f.id === fileId ? { ...f, finalFolder: newFolder, reviewed: true, proposedFolder: undefined } : f
         )
     );
+    this.recordCorrection(fileId);
+  }
+
+  chooseAlternative(fileId: string, alternative: FolderAlternative): void {
+    const folder = this.addFolder(alternative.folder);
+    this.files.update(currentFiles =>
+      currentFiles.map(f =>
+        f.id === fileId ? { ...f, finalFolder: folder, reviewed: true, proposedFolder: undefined } : f
+      )
+    );
+    this.recordCorrection(fileId);
+  }
+
+  // Remembers where the user put an AI-analyzed file and what they called it, if that differs from the suggestion.
+  // Called when a name edit is finished rather than on every keystroke.
+  recordCorrection(fileId: string): void {
+    const file = this.files().find(f => f.id === fileId);
+    if (!this.learnFromCorrections() || !this.correctionExamplesStore.isSupported) return;
+    if (!file || file.status !== 'done' || file.matchedRule || !file.suggestion) return;
+
+    const id = file.contentHash ?? file.id;
+    const folderChanged = file.finalFolder !== DO_NOT_MOVE && file.finalFolder !== file.suggestion;
+    const nameChanged = file.useNewName && !!file.suggestedName && file.suggestedName !== file.aiSuggestedName;
+    if (!folderChanged && !nameChanged) {
+      // Undoing a correction forgets it
+      if (this.correctionExamples().some(e => e.id === id)) this.deleteCorrectionExample(id);
+      return;
+    }
+
+    const example: CorrectionExample = {
+      id,
+      createdAt: Date.now(),
+      fileName: file.name,
+      fileType: file.type,
+      summary: file.summary ?? '',
+      tags: file.tags ?? [],
+      aiFolder: file.suggestion,
+      aiName: file.aiSuggestedName ?? '',
+      folder: file.finalFolder === DO_NOT_MOVE ? '' : file.finalFolder ?? '',
+      newName: nameChanged ? file.suggestedName! : '',
+    };
+    this.correctionExamples.update(examples => [example, ...examples.filter(e => e.id !== id)]);
+    this.correctionExamplesStore.put(example);
+  }
+
+  deleteCorrectionExample(id: string): void {
+    this.correctionExamples.update(examples => examples.filter(e => e.id !== id));
+    this.correctionExamplesStore.delete(id);
+  }
+
+  clearCorrectionExamples(): void {
+    if (!confirm(`Forget all ${this.correctionExamples().length} learned examples?`)) return;
+    this.correctionExamples.set([]);
+    this.correctionExamplesStore.clear();
+  }
+
+  toggleLearnFromCorrections(): void {
+    this.learnFromCorrections.update(v => !v);
+  }
+
+  toggleStrictTaxonomy(): void {
+    this.strictTaxonomy.update(v => !v);
+  }
+
+  // New folders proposed in strict taxonomy mode, each with the files waiting for it and the existing folder it most
+  // likely duplicates
+  folderProposals = computed(() => {
+    const folders = this.foldersForSelect();
+    const groups = new Map<string, AppFile[]>();
+    for (const file of this.files()) {
+      if (!file.proposedFolder) continue;
+      const key = file.proposedFolder.toLowerCase();
+      groups.set(key, [...(groups.get(key) ?? []), file]);
+    }
+    return [...groups.values()].map(files => ({
+      folder: files[0].proposedFolder!,
+      files,
+      closest: this.closestExistingFolder(files[0], folders),
+    }));
+  });
+
+  proposalFileCount = computed(() => this.files().filter(f => f.proposedFolder).length);
+
+  // Prefers the AI's own next choice, and falls back to the folder with the most similar name
+  private closestExistingFolder(file: AppFile, folders: string[]): { folder: string; similarity?: number } | null {
+    for (const alternative of file.alternatives ?? []) {
+      const match = folders.find(f => f.toLowerCase() === alternative.folder.toLowerCase());
+      if (match) return { folder: match };
+    }
+    return closestFolder(file.proposedFolder ?? '', folders.filter(f => f !== FALLBACK_FOLDER));
+  }
+
+  approveFolderProposal(folder: string): void {
+    this.resolveFolderProposal(folder, () => this.addFolder(folder));
+  }
+
+  mergeFolderProposal(folder: string, target: string): void {
+    if (!target) return;
+    this.resolveFolderProposal(folder, () => target);
+  }
+
+  // Each file goes to the existing folder closest to what the AI proposed, or to Miscellaneous
+  rejectFolderProposal(folder: string): void {
+    const folders = this.foldersForSelect();
+    this.resolveFolderProposal(folder, file => {
+      const closest = this.closestExistingFolder(file, folders);
+      const isCloseEnough = closest && (closest.similarity === undefined || closest.similarity >= MIN_FOLDER_NAME_SIMILARITY);
+      return isCloseEnough ? closest.folder : FALLBACK_FOLDER;
+    });
+  }
+
+  private resolveFolderProposal(folder: string, targetFor: (file: AppFile) => string): void {
+    const key = folder.toLowerCase();
+    this.files.update(currentFiles =>
+      currentFiles.map(f =>
+        f.proposedFolder?.toLowerCase() === key ? { ...f, finalFolder: targetFor(f), proposedFolder: undefined } : f
+      )
+    );
+  }
+
+  acceptFile(fileId: string): void {
+    this.files.update(currentFiles =>
+      currentFiles.map(f => (f.id === fileId ? { ...f, reviewed: true } : f))
+    );
+  }
+
+  needsReview(file: AppFile): boolean {
+    if (file.status !== 'done' || file.duplicateOf) return false;
+    if (file.reviewed !== undefined) return !file.reviewed;
+    return file.confidence !== undefined && file.confidence < this.autoAcceptThreshold();
+  }
+
+  reviewCount = computed(() => this.files().filter(f => this.needsReview(f)).length);
+
+  // The file list as shown: optionally only the files that need review, optionally least confident first
+  visibleFiles = computed(() => {
+    const files = this.reviewFilter() === 'needs-review'
+      ? this.files().filter(f => this.needsReview(f))
+      : this.files();
+    if (this.fileSort() !== 'confidence') return files;
+    // Files without a score (not analyzed yet, or classified before scores existed) go last
+    return [...files].sort((a, b) => (a.confidence ?? 2) - (b.confidence ?? 2));
+  });
+
+  onAutoAcceptThresholdInput(event: Event): void {
+    const percent = parseInt((event.target as HTMLInputElement).value, 10);
+    this.autoAcceptThreshold.set(Number.isFinite(percent) ? Math.min(Math.max(percent, 0), 100) / 100 : 0);
+  }
+
+  // Applies to the next analysis; files already analyzed keep their results
+  onContentBudgetInput(field: keyof ContentBudget, event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (!Number.isFinite(value) || value <= 0) return;
+    this.contentBudget.update(budget => ({ ...budget, [field]: field === 'maxUploadMb' ? value : Math.max(1, Math.round(value)) }));
+  }
+
+  toggleOcrEnabled(): void {
+    this.ocrEnabled.update(v => !v);
+  }
+
+  toggleOcrTextOnly(): void {
+    this.ocrTextOnly.update(v => !v);
+  }
+
+  toggleOcrLanguage(code: string): void {
+    this.ocrLanguages.update(languages => {
+      if (!languages.includes(code)) return [...languages, code];
+      // Tesseract needs at least one language
+      return languages.length > 1 ? languages.filter(l => l !== code) : languages;
+    });
+  }
+
+  onReviewFilterChange(event: Event): void {
+    this.reviewFilter.set((event.target as HTMLSelectElement).value as ReviewFilter);
+  }
+
+  onFileSortChange(event: Event): void {
+    this.fileSort.set((event.target as HTMLSelectElement).value as FileSort);
   }
 
   updateSuggestedName(fileId: string, event: Event): void {
     const newName = (event.target as HTMLInputElement).value;
     this.files.update(currentFiles =>
       currentFiles.map(f =>
-        f.id === fileId ? { ...f, suggestedName: this.sanitizeFilename(newName) } : f
+        f.id === fileId ? { ...f, suggestedName: sanitizeFilename(newName) } : f
       )
     );
   }
   
+  // Corrections to the extracted document details, which are exported as bookkeeping data
+  updateDocumentDetail(fileId: string, field: DocumentDetailField, event: Event): void {
+    const input = (event.target as HTMLInputElement).value;
+    let value = input.trim();
+    if (field === 'totalAmount') value = normalizeAmount(input) || value;
+    if (field === 'currency') value = normalizeCurrency(input) || value.toUpperCase();
+    this.files.update(currentFiles =>
+      currentFiles.map(f =>
+        f.id === fileId ? { ...f, [field]: value } : f
+      )
+    );
+  }
+
+  hasFinancialDetails(file: AppFile): boolean {
+    return !!(file.totalAmount || file.documentNumber || file.currency);
+  }
+
+  financeRowCount = computed(() => this.files().filter(f => f.status === 'done' && this.hasFinancialDetails(f)).length);
+
+  downloadFinanceCsv(): void {
+    const rows = this.files()
+      .filter(f => f.status === 'done' && this.hasFinancialDetails(f))
+      .map(f => [
+        f.originalPath,
+        isMovedFile(f) ? f.finalFolder : '',
+        targetFileName(f),
+        f.documentDate,
+        f.vendor,
+        f.documentNumber,
+        f.totalAmount,
+        f.currency,
+      ]);
+    if (rows.length === 0) return;
+    const header = ['Original path', 'Folder', 'File name', 'Document date', 'Vendor', 'Document number', 'Total', 'Currency'];
+    this.downloadTextFile('document-details.csv', toCsv([header, ...rows]), 'text/csv;charset=utf-8');
+  }
+
+  // Everything the review produced, per file. Folder and name are what the export would do with the file.
+  private manifestEntries(filesToExport: AppFile[] = this.filesToExport()): ManifestEntry[] {
+    const exported = new Map(filesToExport.map(f => [f.id, f]));
+    return this.files().map(f => {
+      const target = exported.get(f.id);
+      return {
+        originalPath: f.originalPath,
+        folder: target && isMovedFile(target) ? target.finalFolder! : '',
+        fileName: target ? targetFileName(target) : originalFileName(f),
+        tags: f.tags ?? [],
+        summary: f.summary ?? '',
+        status: f.status === 'done' || f.status === 'error' ? f.status : 'pending',
+        error: f.errorMessage ?? '',
+        suggestedFolder: f.suggestion,
+        suggestedName: f.aiSuggestedName,
+        confidence: f.confidence,
+        title: f.title,
+        documentDate: f.documentDate,
+        vendor: f.vendor,
+        totalAmount: f.totalAmount,
+        currency: f.currency,
+        documentNumber: f.documentNumber,
+      };
+    });
+  }
+
+  downloadManifest(format: 'csv' | 'json'): void {
+    const manifest = createManifest(this.manifestEntries(), this.sourceFolderName());
+    if (format === 'csv') {
+      this.downloadTextFile('manifest.csv', manifestToCsv(manifest), 'text/csv;charset=utf-8');
+    } else {
+      this.downloadTextFile('manifest.json', manifestToJson(manifest), 'application/json');
+    }
+  }
+
+  // Restores the results of an exported review onto the files loaded now, matched by their path. The manifest has no file
+  // contents, so the same files have to be selected first.
+  async importManifest(event: Event): Promise<void> {
+    const element = event.target as HTMLInputElement;
+    const manifestFile = element.files?.[0];
+    element.value = '';
+    if (!manifestFile || this.isProcessing()) return;
+
+    let entries: ManifestEntry[];
+    try {
+      entries = parseManifest(await manifestFile.text(), manifestFile.name);
+    } catch (error) {
+      alert(`Could not import the manifest: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const normalizePath = (path: string) => path.replace(/\\/g, '/').toLowerCase();
+    const byPath = new Map(this.files().map(f => [normalizePath(f.originalPath), f]));
+    const analyzedEntries = entries.filter(e => e.status === 'done');
+    const restored = new Map<string, ManifestEntry>();
+    for (const entry of analyzedEntries) {
+      const file = byPath.get(normalizePath(entry.originalPath));
+      if (file && !file.duplicateOf) restored.set(file.id, entry);
+    }
+
+    // These folders were chosen by a person, so they are added even in strict taxonomy mode
+    for (const entry of restored.values()) {
+      if (entry.folder) this.addFolder(sanitizeFolderPath(entry.folder));
+    }
+    const folders = this.foldersForSelect();
+    this.files.update(currentFiles =>
+      currentFiles.map(f => {
+        const entry = restored.get(f.id);
+        if (!entry) return f;
+        const folder = sanitizeFolderPath(entry.folder);
+        const fileName = sanitizeFilename(entry.fileName) || originalFileName(f);
+        return {
+          ...f,
+          status: 'done',
+          errorMessage: undefined,
+          errorCategory: undefined,
+          finalFolder: folder ? folders.find(existing => existing.toLowerCase() === folder.toLowerCase()) ?? folder : DO_NOT_MOVE,
+          suggestion: entry.suggestedFolder ?? (folder || undefined),
+          suggestedName: fileName,
+          aiSuggestedName: entry.suggestedName ?? fileName,
+          useNewName: fileName !== originalFileName(f),
+          tags: entry.tags,
+          summary: entry.summary,
+          confidence: entry.confidence,
+          alternatives: undefined,
+          reviewed: true, // The manifest holds decisions that were already made
+          proposedFolder: undefined,
+          title: entry.title,
+          documentDate: entry.documentDate,
+          vendor: entry.vendor,
+          totalAmount: entry.totalAmount,
+          currency: entry.currency,
+          documentNumber: entry.documentNumber,
+        };
+      })
+    );
+
+    const unmatched = analyzedEntries.length - restored.size;
+    alert(`Restored ${restored.size} analyzed files from the manifest.`
+      + (unmatched > 0 ? ` ${unmatched} entries did not match a loaded file; select the same files or folder first.` : ''));
+  }
+
   openModal(file: AppFile): void {
     if (file.status === 'error') return;
     this.fileInModal.set(file);
@@ -443,6 +1396,171 @@ export class AppComponent {
     this.fileInModal.set(null);
   }
 
+  private templateContext(file: AppFile, counter?: number): TemplateContext {
+    return {
+      originalName: originalFileName(file),
+      size: file.size,
+      lastModified: file.originalFile.lastModified,
+      exifDate: file.exifDate,
+      folder: file.finalFolder,
+      aiName: file.aiSuggestedName,
+      title: file.title,
+      summary: file.summary,
+      tags: file.tags,
+      documentDate: file.documentDate,
+      vendor: file.vendor,
+      totalAmount: file.totalAmount,
+      currency: file.currency,
+      documentNumber: file.documentNumber,
+      counter,
+    };
+  }
+
+  // The name the filename template gives each analyzed file, by file ID. Counters run per destination folder.
+  templatePreviews = computed(() => {
+    const template = this.filenameTemplate().trim();
+    const previews = new Map<string, string>();
+    if (!template) return previews;
+    const counters = new Map<string, number>();
+    for (const file of this.files()) {
+      if (file.status !== 'done' || file.duplicateOf) continue;
+      const folderKey = (file.finalFolder ?? '').toLowerCase();
+      const counter = (counters.get(folderKey) ?? 0) + 1;
+      counters.set(folderKey, counter);
+      previews.set(file.id, renderFilenameTemplate(template, this.templateContext(file, counter)));
+    }
+    return previews;
+  });
+
+  onFilenameTemplateInput(event: Event): void {
+    this.filenameTemplate.set((event.target as HTMLInputElement).value);
+  }
+
+  applyFilenameTemplate(): void {
+    const previews = this.templatePreviews();
+    this.files.update(currentFiles =>
+      currentFiles.map(f => {
+        const preview = previews.get(f.id);
+        return preview ? { ...f, suggestedName: preview, useNewName: true } : f;
+      })
+    );
+  }
+
+  // What the scripts and "Apply now" act on: the accepted analyzed files outside of proposed folders and, unless they are skipped, the duplicates
+  filesToExport = computed(() => {
+    const files = this.files();
+    const analyzedFiles = files.filter(f => f.status === 'done' && !f.duplicateOf && !f.proposedFolder && !this.needsReview(f));
+    if (this.duplicateHandling() === 'skip') return analyzedFiles;
+    const duplicates = files
+      .filter(f => f.duplicateOf)
+      .map(f => ({ ...f, finalFolder: f.finalFolder === DO_NOT_MOVE ? DO_NOT_MOVE : DUPLICATES_FOLDER }));
+    return [...analyzedFiles, ...duplicates];
+  });
+
+  // IDs of files that would end up with the same folder + name (compared case-insensitively)
+  collidingFileIds = computed(() => {
+    const groups = findCollisions(this.filesToExport());
+    return new Set(groups.flat().map(f => f.id));
+  });
+
+  onCollisionStrategyChange(event: Event): void {
+    this.collisionStrategy.set((event.target as HTMLSelectElement).value as CollisionStrategy);
+  }
+
+  resolveNameCollisions(): void {
+    const resolved = new Map(resolveCollisions(this.filesToExport(), this.collisionStrategy()).map(f => [f.id, f]));
+    this.files.update(currentFiles =>
+      currentFiles.map(f => {
+        const resolvedFile = resolved.get(f.id);
+        if (!resolvedFile) return f;
+        if (!f.duplicateOf) return resolvedFile;
+        // Duplicates get their folder from the export, so only a "don't move" decision is kept
+        return {
+          ...f,
+          suggestedName: resolvedFile.suggestedName,
+          useNewName: resolvedFile.useNewName,
+          finalFolder: resolvedFile.finalFolder === DO_NOT_MOVE ? DO_NOT_MOVE : f.finalFolder,
+        };
+      })
+    );
+  }
+
+  // Groups each kept file with its duplicates, for the review panel. Groups of files that are only alike wait for
+  // the user to confirm them; until then, every file in them is analyzed and exported on its own.
+  duplicateGroups = computed(() => {
+    const files = this.files();
+    return files
+      .filter(kept => files.some(f => f.duplicateOf === kept.id || f.possibleDuplicateOf === kept.id))
+      .map(kept => {
+        const duplicates = files.filter(f => f.duplicateOf === kept.id || f.possibleDuplicateOf === kept.id);
+        return { kept, duplicates, kind: duplicates[0].duplicateKind, isConfirmed: !duplicates[0].possibleDuplicateOf };
+      });
+  });
+
+  duplicateCount = computed(() => this.files().filter(f => f.duplicateOf || f.possibleDuplicateOf).length);
+
+  // Identical files are set aside right away; files that only look alike (a resized photo, a revised document) are
+  // left for the user to confirm, since a false match would keep a different file from being organized
+  private markDuplicates(files: AppFile[]): AppFile[] {
+    const isCandidate = (f: AppFile) => !f.duplicateOf && !f.possibleDuplicateOf && !f.duplicateDismissed && f.status !== 'error';
+    const exactGroups = findDuplicateGroups(files.filter(isCandidate), ['exact']);
+    const withExact = this.groupDuplicates(files, exactGroups, 'duplicateOf');
+    const similarGroups = findDuplicateGroups(withExact.filter(isCandidate), ['similar-image', 'similar-text']);
+    return this.groupDuplicates(withExact, similarGroups, 'possibleDuplicateOf');
+  }
+
+  private groupDuplicates(files: AppFile[], groups: DuplicateGroup[], field: 'duplicateOf' | 'possibleDuplicateOf'): AppFile[] {
+    if (groups.length === 0) return files;
+
+    const byId = new Map(files.map(f => [f.id, f]));
+    const duplicateOf = new Map<string, { keptId: string; kind: DuplicateKind }>();
+    for (const group of groups) {
+      // Never throw away an analysis that was already paid for
+      const keptId = group.ids.find(id => byId.get(id)?.status === 'done') ?? group.ids[0];
+      group.ids.filter(id => id !== keptId).forEach(id => duplicateOf.set(id, { keptId, kind: group.kind }));
+    }
+    return files.map(f => {
+      const duplicate = duplicateOf.get(f.id);
+      return duplicate ? { ...f, [field]: duplicate.keptId, duplicateKind: duplicate.kind } : f;
+    });
+  }
+
+  // Makes another file of a duplicate group the one that is kept (and analyzed)
+  keepDuplicate(keptId: string, newKeptId: string): void {
+    this.files.update(currentFiles => {
+      const duplicate = currentFiles.find(f => f.duplicateOf === keptId || f.possibleDuplicateOf === keptId);
+      const field = duplicate?.possibleDuplicateOf ? 'possibleDuplicateOf' : 'duplicateOf';
+      return currentFiles.map(f => {
+        if (f.id === newKeptId) return { ...f, [field]: undefined, duplicateKind: undefined };
+        if (f.id === keptId || f[field] === keptId) return { ...f, [field]: newKeptId, duplicateKind: duplicate?.duplicateKind };
+        return f;
+      });
+    });
+  }
+
+  // The user agrees that files that are only alike are copies of the same file
+  confirmDuplicateGroup(keptId: string): void {
+    this.files.update(currentFiles =>
+      currentFiles.map(f =>
+        f.possibleDuplicateOf === keptId ? { ...f, duplicateOf: keptId, possibleDuplicateOf: undefined } : f
+      )
+    );
+  }
+
+  dismissDuplicateGroup(keptId: string): void {
+    this.files.update(currentFiles =>
+      currentFiles.map(f =>
+        f.id === keptId || f.duplicateOf === keptId || f.possibleDuplicateOf === keptId
+          ? { ...f, duplicateOf: undefined, possibleDuplicateOf: undefined, duplicateKind: undefined, duplicateDismissed: true }
+          : f
+      )
+    );
+  }
+
+  onDuplicateHandlingChange(event: Event): void {
+    this.duplicateHandling.set((event.target as HTMLSelectElement).value as DuplicateHandling);
+  }
+
   showDownloadSection = computed(() => {
     return this.files().some(f => f.status === 'done' || f.status === 'error');
   });
@@ -455,115 +1573,426 @@ export class AppComponent {
   }
 
   canDownloadScript = computed(() => {
-    const hasAnalyzedFiles = this.files().some(f => f.status === 'done');
+    const hasAnalyzedFiles = this.filesToExport().length > 0;
     // A basic check for what might be an absolute path for Windows (C:\) or Linux/Mac (/)
     const sourcePathValid = this.manualSourcePath().includes(':') || this.manualSourcePath().startsWith('/');
     const destPathValid = this.manualDestinationPath().includes(':') || this.manualDestinationPath().startsWith('/');
     return hasAnalyzedFiles && sourcePathValid && destPathValid;
   });
 
-  private sanitizeFolderPath(path: string): string {
-    if (!path) return '';
-    return path.trim().replace(/[<>:"|?*]/g, '').replace(/[/\\]+/g, '/');
+  canApplyNow = computed(() => {
+    return !this.isApplying()
+      && !!this.sourceDirectoryHandle()
+      && !!this.destinationDirectoryHandle()
+      && this.filesToExport().some(f => f.applyStatus !== 'applied');
+  });
+
+  async applyChanges(): Promise<void> {
+    const sourceRoot = this.sourceDirectoryHandle();
+    const destinationRoot = this.destinationDirectoryHandle();
+    if (!sourceRoot || !destinationRoot || this.isApplying()) return;
+
+    const filesToApply = this.filesToExport().filter(f => f.applyStatus !== 'applied');
+    if (filesToApply.length === 0) return;
+
+    const hasPermission = await this.fileSystemAccess.ensureWritable(sourceRoot)
+      && await this.fileSystemAccess.ensureWritable(destinationRoot);
+    if (!hasPermission) {
+      alert('Permission to modify the selected folders was denied.');
+      return;
+    }
+
+    this.isApplying.set(true);
+
+    // One file at a time, so that a folder is never created twice and the status list updates in order
+    for (const file of filesToApply) {
+      const sourceName = originalFileName(file);
+      const newName = targetFileName(file);
+      const isMoving = isMovedFile(file);
+      // Files that stay inside their archive keep their names, see buildOrganizePlan()
+      if (!isMoving && (newName === sourceName || file.archive)) continue;
+
+      this.setApplyStatus(file.id, 'applying');
+      try {
+        let destinationDirectory: FileSystemDirectoryHandle;
+        let result: MoveResult;
+        if (file.archive) {
+          // The file is written from the copy read out of the archive, which stays in the source folder
+          destinationDirectory = await this.fileSystemAccess.getDirectory(destinationRoot, file.finalFolder!, true);
+          const written = await this.fileSystemAccess.writeFile(destinationDirectory, newName, file.originalFile, this.allowOverwrite());
+          result = written ? 'moved' : 'destination-exists';
+        } else {
+          const sourceDirectory = await this.fileSystemAccess.getDirectory(sourceRoot, originalFolder(file), false);
+          destinationDirectory = isMoving
+            ? await this.fileSystemAccess.getDirectory(destinationRoot, file.finalFolder!, true)
+            : sourceDirectory;
+          result = await this.fileSystemAccess.moveFile(
+            file.originalFile, sourceDirectory, sourceName, destinationDirectory, newName, this.allowOverwrite()
+          );
+        }
+        switch (result) {
+          case 'moved':
+            this.setApplyStatus(file.id, 'applied', isMoving ? await this.writeSidecar(file, destinationDirectory, newName) : undefined);
+            break;
+          case 'destination-exists':
+            this.setApplyStatus(file.id, 'skipped', 'A file with this name already exists at the destination.');
+            break;
+          case 'source-missing':
+            this.setApplyStatus(file.id, 'skipped', 'The original file was not found in the source folder.');
+            break;
+        }
+      } catch (error: unknown) {
+        console.error(`Error applying changes to ${file.originalPath}:`, error);
+        this.setApplyStatus(file.id, 'failed', (error instanceof Error && error.message) || 'Could not move the file.');
+      }
+    }
+
+    this.isApplying.set(false);
   }
-  
-  private sanitizeFilename(name: string): string {
-    if (!name) return '';
-    // Disallow path separators in filenames
-    return name.trim().replace(/[<>:"/\\|?*]/g, '');
+
+  // Returns a message for the file's apply status if the sidecar was not written. The file itself has been moved by now,
+  // so a failure here doesn't fail the file.
+  private async writeSidecar(file: AppFile, directory: FileSystemDirectoryHandle, fileName: string): Promise<string | undefined> {
+    const sidecar = this.writeSidecars() ? createSidecar(fileName, file) : null;
+    if (!sidecar) return undefined;
+    try {
+      const written = await this.fileSystemAccess.writeFile(directory, sidecar.name, sidecar.content, this.allowOverwrite());
+      return written ? undefined : `${sidecar.name} already exists and was left unchanged.`;
+    } catch (error) {
+      console.error(`Error writing the sidecar file for ${file.originalPath}:`, error);
+      return `The file was moved, but ${sidecar.name} could not be written.`;
+    }
+  }
+
+  private setApplyStatus(fileId: string, applyStatus: ApplyStatus, applyMessage?: string): void {
+    this.files.update(currentFiles =>
+      currentFiles.map(f =>
+        f.id === fileId ? { ...f, applyStatus, applyMessage } : f
+      )
+    );
+  }
+
+  onScriptTargetChange(event: Event): void {
+    this.scriptTarget.set((event.target as HTMLSelectElement).value as ScriptTarget);
+  }
+
+  toggleScriptDryRun(): void {
+    this.scriptDryRun.update(v => !v);
+  }
+
+  toggleAllowOverwrite(): void {
+    this.allowOverwrite.update(v => !v);
+  }
+
+  toggleZipIncludeManifest(): void {
+    this.zipIncludeManifest.update(v => !v);
+  }
+
+  // Builds the destination tree as a ZIP archive in the browser, for those who can't run the scripts. Where the browser
+  // allows it, the archive is written straight to the chosen file, otherwise it is downloaded from a Blob that only
+  // references the files; either way the files are never all in memory at once.
+  async downloadOrganizedZip(): Promise<void> {
+    if (this.zipProgress()) return;
+    // Two entries with the same path can't be told apart once the archive is extracted
+    const files = resolveCollisions(this.filesToExport(), this.collisionStrategy());
+    const entries: ZipWriterEntry[] = [];
+    for (const file of files.filter(isMovedFile)) {
+      const folder = file.finalFolder!.split('/').filter(p => p).join('/');
+      const fileName = targetFileName(file);
+      entries.push({ path: `${folder}/${fileName}`, data: file.originalFile, lastModified: file.originalFile.lastModified });
+      const sidecar = this.writeSidecars() ? createSidecar(fileName, file) : null;
+      if (sidecar) entries.push({ path: `${folder}/${sidecar.name}`, data: new Blob([sidecar.content]) });
+    }
+    if (entries.length === 0) return;
+    if (this.zipIncludeManifest()) {
+      const manifest = createManifest(this.manifestEntries(files), this.sourceFolderName());
+      entries.push({ path: 'manifest.csv', data: new Blob([manifestToCsv(manifest)]) });
+    }
+
+    let fileHandle: FileSystemFileHandle | null = null;
+    if (this.fileSystemAccess.canPickSaveFile) {
+      fileHandle = await this.fileSystemAccess.pickSaveFile(ORGANIZED_ZIP_NAME, 'ZIP archive', 'application/zip');
+      if (!fileHandle) return;
+    }
+
+    this.zipProgress.set({ written: 0, total: entries.length });
+    const countEntry = () => this.zipProgress.update(progress => progress && { ...progress, written: progress.written + 1 });
+    try {
+      if (fileHandle) {
+        const writable = await fileHandle.createWritable();
+        try {
+          for await (const part of zipArchiveParts(entries)) {
+            await writable.write(part);
+            // Each entry's contents are the only Blob among the parts
+            if (part instanceof Blob) countEntry();
+          }
+          await writable.close();
+        } catch (error) {
+          await writable.abort();
+          throw error;
+        }
+      } else {
+        const parts: (Uint8Array | Blob)[] = [];
+        for await (const part of zipArchiveParts(entries)) {
+          parts.push(part);
+          if (part instanceof Blob) countEntry();
+        }
+        this.downloadBlob(ORGANIZED_ZIP_NAME, new Blob(parts, { type: 'application/zip' }));
+      }
+    } catch (error) {
+      console.error('Error writing the organized ZIP:', error);
+      alert(`Could not create the ZIP archive: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      this.zipProgress.set(null);
+    }
+  }
+
+  toggleWriteSidecars(): void {
+    this.writeSidecars.update(v => !v);
+  }
+
+  private scriptOptions(): ScriptOptions {
+    return { dryRun: this.scriptDryRun(), allowOverwrite: this.allowOverwrite(), writeSidecars: this.writeSidecars() };
   }
 
   generateAndDownloadScript(): void {
-    const analyzedFiles = this.files().filter(f => f.status === 'done');
+    const filesToExport = this.filesToExport();
     const sourcePath = this.manualSourcePath().trim();
     const destinationPath = this.manualDestinationPath().trim();
     
-    if (analyzedFiles.length === 0 || !sourcePath || !destinationPath) return;
-
-    let scriptContent = `# AI File Organizer - PowerShell Script
-# -------------------------------------
-# INSTRUCTIONS:
-# 1. This script uses the absolute paths you provided. You can run it from anywhere.
-# 2. To run, right-click this file and select "Run with PowerShell".
-#
-# NOTE: If you get an error about scripts being disabled, run this command in PowerShell once:
-# Set-ExecutionPolicy -Scope CurrentUser -ExecutionPolicy RemoteSigned
-# (And press 'Y' and Enter to confirm)
-# -------------------------------------\n
-`;
-    
-    const foldersToCreate = [...new Set(
-        analyzedFiles
-            .map(f => f.finalFolder)
-            .filter(folder => folder && folder !== '--do-not-move--')
-    )] as string[];
-
-    if (foldersToCreate.length > 0) {
-        scriptContent += `# Create destination subfolders if they don't exist\n`;
-        foldersToCreate.forEach(folder => {
-            const folderForScript = folder.replace(/\//g, '\\').replace(/'/g, "''");
-            const fullDestFolderPath = `${destinationPath.replace(/'/g, "''")}\\${folderForScript}`;
-            scriptContent += `$_folderPath = '${fullDestFolderPath}'
-if (-not (Test-Path -Path $_folderPath)) {
-    Write-Host "Creating folder: $_folderPath"
-    New-Item -ItemType Directory -Path $_folderPath -Force | Out-Null
-}\n`;
-        });
-        scriptContent += `\n`;
-    }
-
-    scriptContent += `# Process files\n`;
-    analyzedFiles.forEach(file => {
-        // originalPath is like "SourceFolderName/image.jpg", we just need the "image.jpg" part
-        const pathParts = file.originalPath.split(/[/\\]+/);
-        const originalFileNameOnly = pathParts.pop()?.replace(/'/g, "''") || file.name.replace(/'/g, "''");
-        
-        const sourceFilePath = `${sourcePath.replace(/'/g, "''")}\\${originalFileNameOnly}`;
-        
-        const suggestedNameRaw = file.suggestedName || '';
-        const suggestedName = this.sanitizeFilename(suggestedNameRaw).replace(/'/g, "''");
-        
-        const newName = file.useNewName && suggestedName ? suggestedName : originalFileNameOnly;
-        const destinationFolder = file.finalFolder;
-
-        if (destinationFolder && destinationFolder !== '--do-not-move--') {
-            const destFolderForScript = destinationFolder.replace(/\//g, '\\').replace(/'/g, "''");
-            const destinationFilePath = `${destinationPath.replace(/'/g, "''")}\\${destFolderForScript}\\${newName}`;
-            
-            scriptContent += `$_sourceFile = '${sourceFilePath}'
-$_destFile = '${destinationFilePath}'
-if (Test-Path -Path $_sourceFile) {
-    Write-Host "Moving '${originalFileNameOnly}' to '${destFolderForScript}\\${newName}'"
-    Move-Item -Path $_sourceFile -Destination $_destFile -Force
-} else {
-    Write-Host "WARNING: Source file not found, skipping: '${originalFileNameOnly}'" -ForegroundColor Yellow
-}\n`;
-        } else if (file.useNewName && newName !== originalFileNameOnly) {
-            const sourceFilePathForRename = `${sourcePath.replace(/'/g, "''")}\\${originalFileNameOnly}`;
-            scriptContent += `$_sourceFile = '${sourceFilePathForRename}'
-$_newName = '${newName}'
-if (Test-Path -Path $_sourceFile) {
-    Write-Host "Renaming '${originalFileNameOnly}' to '$_newName' in the source folder"
-    Rename-Item -Path $_sourceFile -NewName $_newName
-} else {
-    Write-Host "WARNING: Source file not found, skipping rename for: '${originalFileNameOnly}'" -ForegroundColor Yellow
-}\n`;
-        }
-    });
-    scriptContent += `\n`;
-    
-    scriptContent += `Write-Host "Organization complete." -ForegroundColor Green\n`;
-    scriptContent += `Read-Host "Press Enter to exit..."\n`;
+    if (filesToExport.length === 0 || !sourcePath || !destinationPath) return;
+
+    const script = generateOrganizeScript(this.scriptTarget(), filesToExport, { sourcePath, destinationPath }, this.scriptOptions());
+    this.downloadTextFile(script.fileName, script.content);
+  }
+
+  generateAndDownloadUndoScript(): void {
+    const filesToExport = this.filesToExport();
+    const sourcePath = this.manualSourcePath().trim();
+    const destinationPath = this.manualDestinationPath().trim();
+
+    if (filesToExport.length === 0 || !sourcePath || !destinationPath) return;
+
+    const script = generateUndoScript(this.scriptTarget(), filesToExport, { sourcePath, destinationPath }, this.scriptOptions());
+    this.downloadTextFile(script.fileName, script.content);
+  }
+
+  private downloadTextFile(fileName: string, content: string, type = 'text/plain;charset=utf-8'): void {
+    this.downloadBlob(fileName, new Blob([content], { type }));
+  }
 
-    const utf8BOM = "\uFEFF";
-    const blob = new Blob([utf8BOM + scriptContent], { type: 'text/plain;charset=utf-8' });
+  private downloadBlob(fileName: string, blob: Blob): void {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'organize-files.ps1';
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   }
-}
\ No newline at end of file
+
+  private toStoredFile(file: AppFile): StoredFile {
+    return {
+      id: file.id,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      originalPath: file.originalPath,
+      archive: file.archive,
+      contentHash: file.contentHash,
+      perceptualHash: file.perceptualHash,
+      exifDate: file.exifDate,
+      extractedText: file.extractedText,
+      extractedBy: file.extractedBy,
+      contentStrategy: file.contentStrategy,
+      fileDescription: file.fileDescription,
+      // An interrupted analysis has to run again
+      status: file.status === 'queued' || file.status === 'processing' ? 'pending' : file.status,
+      suggestion: file.suggestion,
+      finalFolder: file.finalFolder,
+      tags: file.tags,
+      summary: file.summary,
+      suggestedName: file.suggestedName,
+      aiSuggestedName: file.aiSuggestedName,
+      title: file.title,
+      documentDate: file.documentDate,
+      vendor: file.vendor,
+      totalAmount: file.totalAmount,
+      currency: file.currency,
+      documentNumber: file.documentNumber,
+      confidence: file.confidence,
+      alternatives: file.alternatives,
+      reviewed: file.reviewed,
+      proposedFolder: file.proposedFolder,
+      useNewName: file.useNewName,
+      cached: file.cached,
+      matchedRule: file.matchedRule,
+      duplicateOf: file.duplicateOf,
+      possibleDuplicateOf: file.possibleDuplicateOf,
+      duplicateKind: file.duplicateKind,
+      duplicateDismissed: file.duplicateDismissed,
+      errorMessage: file.errorMessage,
+      errorCategory: file.errorCategory,
+      applyStatus: file.applyStatus === 'applying' ? undefined : file.applyStatus,
+      applyMessage: file.applyMessage,
+    };
+  }
+
+  private async toAppFile(stored: StoredFile, blob: Blob | undefined): Promise<AppFile> {
+    const isDocx = stored.type === DOCX_TYPE;
+    const originalFile = blob instanceof File ? blob : new File(blob ? [blob] : [], stored.name, { type: stored.type });
+    const previewUrl = blob && stored.type.startsWith('image/') ? URL.createObjectURL(originalFile) : '';
+    const appFile: AppFile = {
+      ...stored,
+      originalFile,
+      previewUrl,
+      safeUrl: this.sanitizer.bypassSecurityTrustResourceUrl(previewUrl),
+      blob: isDocx ? originalFile : undefined,
+    };
+    if (!blob) {
+      return { ...appFile, status: 'error', errorMessage: 'The file contents could not be restored.', errorCategory: undefined };
+    }
+    return appFile;
+  }
+
+  private scheduleSessionSave(state: SessionState): void {
+    if (this.pendingSessionSave) clearTimeout(this.pendingSessionSave.timer);
+    this.pendingSessionSave = null;
+    // Don't create a session until there is something to keep
+    if (state.files.length === 0 && !this.currentSession()) return;
+    const timer = setTimeout(() => this.flushSessionSave(), SESSION_SAVE_DELAY_MS);
+    this.pendingSessionSave = { timer, state };
+  }
+
+  private async flushSessionSave(): Promise<void> {
+    if (!this.pendingSessionSave) return;
+    const { timer, state } = this.pendingSessionSave;
+    clearTimeout(timer);
+    this.pendingSessionSave = null;
+
+    const now = Date.now();
+    const current = this.currentSession();
+    const summary: SessionSummary = current
+      ? { ...current, updatedAt: now, fileCount: state.files.length }
+      : {
+          id: crypto.randomUUID(),
+          name: this.sourceFolderName() ?? `Session of ${new Date(now).toLocaleString()}`,
+          createdAt: now,
+          updatedAt: now,
+          fileCount: state.files.length,
+        };
+    // Set before saving, so that a save scheduled in the meantime updates the same session
+    this.currentSession.set(summary);
+
+    const persistedBlobIds = this.persistedBlobIds;
+    const storedFileIds = new Set(state.files.map(f => f.id));
+    const newBlobs = new Map<string, Blob>();
+    for (const file of this.files()) {
+      if (storedFileIds.has(file.id) && !persistedBlobIds.has(file.id)) newBlobs.set(file.id, file.originalFile);
+    }
+
+    try {
+      await this.sessionStore.saveSession(summary, state, newBlobs);
+      newBlobs.forEach((_, fileId) => persistedBlobIds.add(fileId));
+      await this.refreshSessions();
+    } catch (error) {
+      console.error('Could not save the session:', error);
+    }
+  }
+
+  private async refreshSessions(): Promise<void> {
+    this.sessions.set(await this.sessionStore.listSessions());
+  }
+
+  private async restoreLatestSession(): Promise<void> {
+    try {
+      await this.refreshSessions();
+      const latest = this.sessions()[0];
+      if (latest && this.files().length === 0) await this.openSession(latest.id);
+    } catch (error) {
+      console.error('Could not restore the last session:', error);
+    }
+  }
+
+  private startNewSession(): void {
+    this.cancelFileReads();
+    if (this.pendingSessionSave) this.flushSessionSave();
+    this.currentSession.set(null);
+    this.persistedBlobIds = new Set();
+    this.revokePreviewUrls(this.files());
+    this.files.set([]);
+  }
+
+  private revokePreviewUrls(files: AppFile[]): void {
+    files.forEach(file => file.previewUrl && URL.revokeObjectURL(file.previewUrl));
+  }
+
+  async openSession(sessionId: string): Promise<void> {
+    if (this.isProcessing() || this.isApplying()) return;
+    await this.flushSessionSave();
+
+    const loaded = await this.sessionStore.loadSession(sessionId);
+    if (!loaded) {
+      await this.refreshSessions();
+      return;
+    }
+    const { state } = loaded;
+    const files = await Promise.all(state.files.map(f => this.toAppFile(f, loaded.blobs.get(f.id))));
+
+    this.cancelFileReads();
+    this.currentSession.set(loaded.summary);
+    this.persistedBlobIds = new Set(loaded.blobs.keys());
+    this.revokePreviewUrls(this.files());
+    this.files.set(files);
+    this.folderTree.set(state.folderTree ?? buildFolderTree(state.folders?.split(',') ?? [], newFolderId));
+    this.rules.set(state.rules ?? []);
+    this.filenameTemplate.set(state.filenameTemplate ?? '');
+    this.sourceFolderName.set(state.sourceFolderName);
+    this.destinationFolderName.set(state.destinationFolderName);
+    this.manualSourcePath.set(state.manualSourcePath);
+    this.manualDestinationPath.set(state.manualDestinationPath);
+    this.sourceDirectoryHandle.set(state.sourceDirectoryHandle);
+    this.destinationDirectoryHandle.set(state.destinationDirectoryHandle);
+    this.providerId.set(state.providerId);
+    this.providerModel.set(state.providerModel);
+    this.providerBaseUrl.set(state.providerBaseUrl);
+    this.scriptTarget.set(state.scriptTarget ?? 'powershell');
+    this.collisionStrategy.set(state.collisionStrategy ?? 'suffix');
+    this.duplicateHandling.set(state.duplicateHandling ?? 'move-to-folder');
+    this.autoAcceptThreshold.set(state.autoAcceptThreshold ?? DEFAULT_AUTO_ACCEPT_THRESHOLD);
+    this.contentBudget.set({ ...DEFAULT_CONTENT_BUDGET, ...state.contentBudget });
+    this.ocrEnabled.set(state.ocrEnabled ?? false);
+    // Sessions may name languages that are no longer offered
+    const ocrLanguages = (state.ocrLanguages ?? []).filter(code => OCR_LANGUAGES.some(l => l.code === code));
+    this.ocrLanguages.set(ocrLanguages.length > 0 ? ocrLanguages : ['eng']);
+    this.ocrTextOnly.set(state.ocrTextOnly ?? false);
+    this.strictTaxonomy.set(state.strictTaxonomy ?? false);
+    this.learnFromCorrections.set(state.learnFromCorrections ?? true);
+  }
+
+  async renameSession(session: SessionSummary): Promise<void> {
+    const name = prompt('Session name', session.name)?.trim();
+    if (!name || name === session.name) return;
+    await this.sessionStore.renameSession(session.id, name);
+    if (this.currentSession()?.id === session.id) {
+      this.currentSession.update(current => current && { ...current, name });
+    }
+    await this.refreshSessions();
+  }
+
+  async deleteSession(session: SessionSummary): Promise<void> {
+    const isCurrent = this.currentSession()?.id === session.id;
+    if (isCurrent && (this.isProcessing() || this.isApplying())) return;
+    if (!confirm(`Delete the session "${session.name}"? Its files and analysis results will be lost.`)) return;
+    if (isCurrent) {
+      // Drop the session before clearing, so that clearing doesn't save it again
+      this.currentSession.set(null);
+      if (this.pendingSessionSave) clearTimeout(this.pendingSessionSave.timer);
+      this.pendingSessionSave = null;
+      this.clearAll();
+    }
+    await this.sessionStore.deleteSession(session.id);
+    await this.refreshSessions();
+  }
+}
@@ -0,0 +1,180 @@
+import { ChangeDetectionStrategy, Component, model, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { sanitizeFilename } from './utils/sanitize';
+import {
+  FolderNode,
+  addChildFolder,
+  createFolderNode,
+  flattenFolderTree,
+  moveFolderNode,
+  removeFolderNode,
+  updateFolderNode,
+} from './utils/folder-tree';
+
+@Component({
+  selector: 'app-folder-tree-editor',
+  imports: [CommonModule],
+  template: `
+    <ng-template #folderList let-nodes let-parentId="parentId">
+      <ul class="space-y-1" [class.ml-5]="parentId !== null" [class.mt-1]="parentId !== null">
+        @for (node of nodes; track node.id; let i = $index, last = $last) {
+          <li>
+            <div
+              class="flex items-center gap-2 p-1.5 rounded-md border transition-colors"
+              [class.border-slate-200]="dropTargetId() !== node.id"
+              [class.border-indigo-400]="dropTargetId() === node.id"
+              [class.bg-indigo-50]="dropTargetId() === node.id"
+              [class.opacity-50]="draggedId() === node.id"
+              draggable="true"
+              (dragstart)="onDragStart($event, node.id)"
+              (dragend)="onDragEnd()"
+              (dragover)="onDragOver($event, node.id)"
+              (dragleave)="onDragLeave(node.id)"
+              (drop)="onDrop($event, node.id)"
+            >
+              <span class="cursor-move select-none text-slate-400" title="Drag onto another folder to move it there">⠿</span>
+              <input type="text" [value]="node.name" (change)="rename(node, $event)" class="flex-1 min-w-0 text-sm p-1 border border-transparent hover:border-slate-300 bg-transparent rounded focus:bg-white focus:ring-indigo-500 focus:border-indigo-500">
+              @if (node.description || node.keywords) {
+                <span class="w-1.5 h-1.5 rounded-full bg-indigo-400 shrink-0" title="Has a description or keywords"></span>
+              }
+              <div class="flex items-center gap-2 text-xs shrink-0">
+                <button (click)="toggleDetails(node.id)" class="text-slate-500 hover:text-slate-800">{{ expandedIds().has(node.id) ? 'Hide' : 'Describe' }}</button>
+                <button (click)="addSubfolder(node)" class="text-slate-500 hover:text-slate-800" title="Add subfolder">+ Sub</button>
+                <button (click)="move(node.id, parentId, i - 1)" [disabled]="i === 0" class="text-slate-500 hover:text-slate-800 disabled:text-slate-300" title="Move up">↑</button>
+                <button (click)="move(node.id, parentId, i + 1)" [disabled]="last" class="text-slate-500 hover:text-slate-800 disabled:text-slate-300" title="Move down">↓</button>
+                <button (click)="remove(node)" class="text-slate-500 hover:text-red-600" title="Delete">✕</button>
+              </div>
+            </div>
+            @if (expandedIds().has(node.id)) {
+              <div class="ml-6 mt-1 mb-2 grid grid-cols-1 gap-2 text-sm">
+                <label class="block">
+                  <span class="text-xs text-slate-600">What belongs here</span>
+                  <textarea rows="2" [value]="node.description" (change)="updateText(node.id, 'description', $event)" placeholder="e.g. Bills from suppliers and service providers" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm"></textarea>
+                </label>
+                <label class="block">
+                  <span class="text-xs text-slate-600">Example keywords (comma-separated)</span>
+                  <input type="text" [value]="node.keywords" (change)="updateText(node.id, 'keywords', $event)" placeholder="invoice, amount due, VAT" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm">
+                </label>
+              </div>
+            }
+            @if (node.children.length > 0) {
+              <ng-container *ngTemplateOutlet="folderList; context: { $implicit: node.children, parentId: node.id }" />
+            }
+          </li>
+        }
+      </ul>
+    </ng-template>
+
+    <div class="space-y-2">
+      @if (tree().length === 0) {
+        <p class="text-sm text-slate-500">No folders yet.</p>
+      }
+      <ng-container *ngTemplateOutlet="folderList; context: { $implicit: tree(), parentId: null }" />
+      @if (draggedId()) {
+        <div
+          class="p-2 text-xs text-center border-2 border-dashed rounded-md transition-colors"
+          [class.border-slate-300]="dropTargetId() !== topLevel"
+          [class.text-slate-500]="dropTargetId() !== topLevel"
+          [class.border-indigo-400]="dropTargetId() === topLevel"
+          [class.text-indigo-700]="dropTargetId() === topLevel"
+          (dragover)="onDragOver($event, topLevel)"
+          (dragleave)="onDragLeave(topLevel)"
+          (drop)="onDrop($event, null)"
+        >Drop here to move to the top level</div>
+      }
+      <button (click)="addFolder()" class="text-sm font-medium text-indigo-600 hover:text-indigo-800 transition-colors">+ Add folder</button>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class FolderTreeEditorComponent {
+  tree = model.required<FolderNode[]>();
+
+  readonly topLevel = '--top-level--'; // Drop target ID of the top-level drop zone
+  expandedIds = signal(new Set<string>());
+  draggedId = signal<string | null>(null);
+  dropTargetId = signal<string | null>(null);
+
+  addFolder(): void {
+    const node = createFolderNode(crypto.randomUUID(), this.uniqueName(this.tree()));
+    this.tree.update(tree => addChildFolder(tree, null, node));
+  }
+
+  addSubfolder(parent: FolderNode): void {
+    const node = createFolderNode(crypto.randomUUID(), this.uniqueName(parent.children));
+    this.tree.update(tree => addChildFolder(tree, parent.id, node));
+  }
+
+  rename(node: FolderNode, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const name = sanitizeFilename(input.value);
+    if (!name) {
+      // A folder without a name would break the paths below it
+      input.value = node.name;
+      return;
+    }
+    this.tree.update(tree => updateFolderNode(tree, node.id, { name }));
+  }
+
+  updateText(nodeId: string, field: 'description' | 'keywords', event: Event): void {
+    const value = (event.target as HTMLInputElement | HTMLTextAreaElement).value.trim();
+    this.tree.update(tree => updateFolderNode(tree, nodeId, { [field]: value }));
+  }
+
+  toggleDetails(nodeId: string): void {
+    this.expandedIds.update(ids => {
+      const next = new Set(ids);
+      if (!next.delete(nodeId)) next.add(nodeId);
+      return next;
+    });
+  }
+
+  move(nodeId: string, parentId: string | null, index: number): void {
+    this.tree.update(tree => moveFolderNode(tree, nodeId, parentId, index));
+  }
+
+  remove(node: FolderNode): void {
+    if (node.children.length > 0 && !confirm(`Delete "${node.name}" and its ${flattenFolderTree(node.children).length} subfolders?`)) return;
+    this.tree.update(tree => removeFolderNode(tree, node.id));
+  }
+
+  onDragStart(event: DragEvent, nodeId: string): void {
+    event.stopPropagation();
+    // Firefox only starts dragging when there is data
+    event.dataTransfer?.setData('text/plain', nodeId);
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+    this.draggedId.set(nodeId);
+  }
+
+  onDragEnd(): void {
+    this.draggedId.set(null);
+    this.dropTargetId.set(null);
+  }
+
+  onDragOver(event: DragEvent, targetId: string): void {
+    if (!this.draggedId() || this.draggedId() === targetId) return;
+    event.preventDefault(); // Allows dropping
+    event.stopPropagation();
+    this.dropTargetId.set(targetId);
+  }
+
+  onDragLeave(targetId: string): void {
+    if (this.dropTargetId() === targetId) this.dropTargetId.set(null);
+  }
+
+  // Dropping onto a folder makes the dragged folder its last subfolder
+  onDrop(event: DragEvent, targetId: string | null): void {
+    event.preventDefault();
+    event.stopPropagation();
+    const draggedId = this.draggedId();
+    this.onDragEnd();
+    if (draggedId) this.tree.update(tree => moveFolderNode(tree, draggedId, targetId));
+  }
+
+  private uniqueName(siblings: FolderNode[]): string {
+    const names = new Set(siblings.map(s => s.name.toLowerCase()));
+    let name = 'New folder';
+    for (let i = 2; names.has(name.toLowerCase()); i++) name = `New folder ${i}`;
+    return name;
+  }
+}
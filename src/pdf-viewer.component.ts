@@ -1,7 +1,7 @@
 import { ChangeDetectionStrategy, Component, AfterViewInit, ElementRef, input, signal, viewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import * as pdfjsLib from 'pdfjs-dist';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { openPdf } from './utils/pdf-content';
 
 @Component({
   selector: 'app-pdf-viewer',
@@ -56,7 +56,7 @@ import type { PDFDocumentProxy } from 'pdfjs-dist';
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class PdfViewerComponent implements AfterViewInit {
-  pdfSrc = input.required<string>();
+  pdfBlob = input.required<Blob>();
   
   private pdfContainerRef = viewChild.required<ElementRef<HTMLDivElement>>('pdfContainer');
   
@@ -69,10 +69,6 @@ export class PdfViewerComponent implements AfterViewInit {
   private readonly zoomStep = 0.25;
   private pdfDoc: PDFDocumentProxy | null = null;
 
-  constructor() {
-    pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.mjs`;
-  }
-
   ngAfterViewInit(): void {
     this.loadAndRenderPdf();
   }
@@ -91,18 +87,13 @@ export class PdfViewerComponent implements AfterViewInit {
   
   private async loadAndRenderPdf(): Promise<void> {
     try {
-      if (!this.pdfSrc()) {
+      if (this.pdfBlob().size === 0) {
         this.error.set('No PDF source provided.');
         this.isLoading.set(false);
         return;
       }
-      
-      const base64Data = this.pdfSrc().split(',')[1];
-      if (!base64Data) { throw new Error('Invalid PDF data URL.'); }
 
-      const pdfData = atob(base64Data);
-      const loadingTask = pdfjsLib.getDocument({ data: pdfData });
-      this.pdfDoc = await loadingTask.promise;
+      this.pdfDoc = await openPdf(this.pdfBlob());
 
       // Calculate initial scale to fit the container width
       const firstPage = await this.pdfDoc.getPage(1);
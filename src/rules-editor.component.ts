@@ -0,0 +1,143 @@
+import { ChangeDetectionStrategy, Component, input, model } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FileRule, createRule, ruleValidationError } from './utils/rules';
+
+type TextField = 'name' | 'namePattern' | 'mimeType' | 'modifiedAfter' | 'modifiedBefore' | 'keywords' | 'folder' | 'tags' | 'renameTemplate';
+type NumberField = 'minSizeKb' | 'maxSizeKb';
+
+@Component({
+  selector: 'app-rules-editor',
+  imports: [CommonModule],
+  template: `
+    <div class="space-y-3">
+      @for (rule of rules(); track rule.id; let i = $index, last = $last) {
+        <details class="border border-slate-200 rounded-lg" [class.opacity-60]="!rule.enabled">
+          <summary class="flex items-center gap-3 p-3 cursor-pointer">
+            <input type="checkbox" [checked]="rule.enabled" (click)="$event.stopPropagation()" (change)="toggleEnabled(rule.id)" class="h-4 w-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500" title="Enabled">
+            <span class="text-sm font-medium text-slate-800 flex-grow truncate">{{ i + 1 }}. {{ rule.name }}</span>
+            @if (rule.folder) {
+              <span class="text-xs text-slate-500 font-mono truncate">→ {{ rule.folder }}</span>
+            }
+            @if (validationError(rule); as error) {
+              <span class="text-xs text-amber-700" [title]="error">Incomplete</span>
+            }
+          </summary>
+          <div class="p-3 pt-0 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+            <label class="sm:col-span-2 block">
+              <span class="text-slate-700">Name</span>
+              <input type="text" [value]="rule.name" (input)="updateText(rule.id, 'name', $event)" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm">
+            </label>
+
+            <p class="sm:col-span-2 text-xs font-semibold text-slate-500 uppercase tracking-wide">When</p>
+            <label class="block">
+              <span class="text-slate-700">File name matches (regex)</span>
+              <input type="text" [value]="rule.namePattern" (input)="updateText(rule.id, 'namePattern', $event)" placeholder="invoice|rechnung" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm font-mono">
+            </label>
+            <label class="block">
+              <span class="text-slate-700">File type</span>
+              <input type="text" [value]="rule.mimeType" (input)="updateText(rule.id, 'mimeType', $event)" placeholder="image/* or application/pdf" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm font-mono">
+            </label>
+            <div class="flex gap-2">
+              <label class="block flex-1">
+                <span class="text-slate-700">Min size (KB)</span>
+                <input type="number" min="0" [value]="rule.minSizeKb ?? ''" (input)="updateNumber(rule.id, 'minSizeKb', $event)" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm">
+              </label>
+              <label class="block flex-1">
+                <span class="text-slate-700">Max size (KB)</span>
+                <input type="number" min="0" [value]="rule.maxSizeKb ?? ''" (input)="updateNumber(rule.id, 'maxSizeKb', $event)" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm">
+              </label>
+            </div>
+            <div class="flex gap-2">
+              <label class="block flex-1">
+                <span class="text-slate-700">Modified from</span>
+                <input type="date" [value]="rule.modifiedAfter" (change)="updateText(rule.id, 'modifiedAfter', $event)" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm">
+              </label>
+              <label class="block flex-1">
+                <span class="text-slate-700">Modified until</span>
+                <input type="date" [value]="rule.modifiedBefore" (change)="updateText(rule.id, 'modifiedBefore', $event)" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm">
+              </label>
+            </div>
+            <label class="sm:col-span-2 block">
+              <span class="text-slate-700">Text contains any of (comma-separated)</span>
+              <input type="text" [value]="rule.keywords" (input)="updateText(rule.id, 'keywords', $event)" placeholder="invoice number, amount due" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm">
+            </label>
+
+            <p class="sm:col-span-2 text-xs font-semibold text-slate-500 uppercase tracking-wide">Then</p>
+            <label class="block">
+              <span class="text-slate-700">Move to folder</span>
+              <input type="text" [value]="rule.folder" (input)="updateText(rule.id, 'folder', $event)" [attr.list]="'rule-folders-' + rule.id" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm font-mono">
+              <datalist [id]="'rule-folders-' + rule.id">
+                @for (folder of folders(); track folder) {
+                  <option [value]="folder"></option>
+                }
+              </datalist>
+            </label>
+            <label class="block">
+              <span class="text-slate-700">Tags (comma-separated)</span>
+              <input type="text" [value]="rule.tags" (input)="updateText(rule.id, 'tags', $event)" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm">
+            </label>
+            <label class="sm:col-span-2 block">
+              <span class="text-slate-700">Rename to (optional)</span>
+              <input type="text" [value]="rule.renameTemplate" (input)="updateText(rule.id, 'renameTemplate', $event)" placeholder="{date}_invoice_{originalName}" class="mt-1 block w-full rounded-md border-slate-300 shadow-sm sm:text-sm font-mono">
+              <span class="text-xs text-slate-500">Same tokens as the filename template, e.g. {{ '{originalName}' }} or {{ '{modified:yyyy-MM-dd}' }}. The extension is always kept.</span>
+            </label>
+
+            @if (validationError(rule); as error) {
+              <p class="sm:col-span-2 text-xs text-amber-700">{{ error }}</p>
+            }
+            <div class="sm:col-span-2 flex justify-end gap-3 text-xs">
+              <button (click)="move(i, -1)" [disabled]="i === 0" class="text-slate-500 hover:text-slate-800 disabled:text-slate-300">Move up</button>
+              <button (click)="move(i, 1)" [disabled]="last" class="text-slate-500 hover:text-slate-800 disabled:text-slate-300">Move down</button>
+              <button (click)="remove(rule.id)" class="text-slate-500 hover:text-red-600">Delete</button>
+            </div>
+          </div>
+        </details>
+      }
+      <button (click)="add()" class="text-sm font-medium text-indigo-600 hover:text-indigo-800 transition-colors">+ Add rule</button>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RulesEditorComponent {
+  rules = model.required<FileRule[]>();
+  folders = input<string[]>([]); // Suggestions for the folder field
+
+  validationError(rule: FileRule): string | null {
+    return ruleValidationError(rule);
+  }
+
+  add(): void {
+    this.rules.update(rules => [...rules, createRule(crypto.randomUUID())]);
+  }
+
+  remove(ruleId: string): void {
+    this.rules.update(rules => rules.filter(r => r.id !== ruleId));
+  }
+
+  move(index: number, offset: number): void {
+    this.rules.update(rules => {
+      const reordered = [...rules];
+      const [rule] = reordered.splice(index, 1);
+      reordered.splice(index + offset, 0, rule);
+      return reordered;
+    });
+  }
+
+  toggleEnabled(ruleId: string): void {
+    this.patch(ruleId, rule => ({ enabled: !rule.enabled }));
+  }
+
+  updateText(ruleId: string, field: TextField, event: Event): void {
+    const value = (event.target as HTMLInputElement).value;
+    this.patch(ruleId, () => ({ [field]: value }));
+  }
+
+  updateNumber(ruleId: string, field: NumberField, event: Event): void {
+    const value = parseFloat((event.target as HTMLInputElement).value);
+    this.patch(ruleId, () => ({ [field]: Number.isFinite(value) && value >= 0 ? value : null }));
+  }
+
+  private patch(ruleId: string, changes: (rule: FileRule) => Partial<FileRule>): void {
+    this.rules.update(rules => rules.map(r => (r.id === ruleId ? { ...r, ...changes(r) } : r)));
+  }
+}
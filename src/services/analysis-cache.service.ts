@@ -0,0 +1,62 @@
+import { Injectable } from '@angular/core';
+import { AnalysisProviderId, AnalysisResult, FolderOption } from './analysis-provider';
+import { ANALYSIS_PROMPT_VERSION } from './analysis-prompt';
+import { sha256Hex } from '../utils/content-hash';
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexed-db';
+
+const DB_NAME = 'ai-file-organizer-analysis-cache';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+
+interface CachedAnalysis {
+  result: AnalysisResult;
+  cachedAt: number;
+}
+
+// Remembers analysis results by file content, so that the same file is never sent to the AI twice.
+// A result is only reused for the same provider, model, folder list and prompt version, since all of them shape the
+// answer.
+@Injectable({
+  providedIn: 'root',
+})
+export class AnalysisCacheService {
+  readonly isSupported = typeof indexedDB !== 'undefined' && typeof crypto?.subtle !== 'undefined';
+
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= openDatabase(DB_NAME, DB_VERSION, db => db.createObjectStore(RESULTS_STORE));
+    return this.db;
+  }
+
+  // Descriptions and keywords steer the answer as much as the folder names do, so they are part of the key
+  async cacheKey(contentHash: string, folders: FolderOption[], providerId: AnalysisProviderId, model: string): Promise<string> {
+    const foldersHash = await sha256Hex(JSON.stringify(folders));
+    return `${contentHash}:v${ANALYSIS_PROMPT_VERSION}:${providerId}:${model}:${foldersHash}`;
+  }
+
+  // The cache is best effort: failing to read or write it never fails an analysis
+  async get(key: string): Promise<AnalysisResult | null> {
+    try {
+      const db = await this.open();
+      const cached = await requestToPromise<CachedAnalysis | undefined>(
+        db.transaction(RESULTS_STORE).objectStore(RESULTS_STORE).get(key)
+      );
+      return cached?.result ?? null;
+    } catch (error) {
+      console.error('Could not read the analysis cache:', error);
+      return null;
+    }
+  }
+
+  async put(key: string, result: AnalysisResult): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(RESULTS_STORE, 'readwrite');
+      transaction.objectStore(RESULTS_STORE).put({ result, cachedAt: Date.now() } satisfies CachedAnalysis, key);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('Could not write the analysis cache:', error);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+export type AnalysisErrorCategory =
+  | 'quota' // Rate limit or quota exceeded (HTTP 429)
+  | 'server' // Transient server-side failure (HTTP 5xx, timeouts)
+  | 'network' // The service could not be reached at all
+  | 'safety' // The model refused to process the content
+  | 'invalid-response' // The model answered, but not with the expected JSON
+  | 'unsupported' // The provider cannot handle this kind of file
+  | 'too-large' // The file exceeds the upload limit and could not be reduced
+  | 'unknown';
+
+const RETRYABLE_CATEGORIES: AnalysisErrorCategory[] = ['quota', 'server', 'network', 'invalid-response'];
+
+const CATEGORY_MESSAGES: Record<AnalysisErrorCategory, string> = {
+  'quota': 'Rate limit or quota exceeded. Wait a moment and retry.',
+  'server': 'The AI service had a temporary problem.',
+  'network': 'Could not reach the AI service. Check your connection or server URL.',
+  'safety': 'The AI refused to analyze this file (safety filter).',
+  'invalid-response': 'The AI returned a response that could not be read.',
+  'unsupported': 'The selected AI provider cannot analyze this type of file.',
+  'too-large': 'The file is larger than the upload limit. Raise the limit under "Large files" to analyze it.',
+  'unknown': 'AI analysis failed.',
+};
+
+export class AnalysisError extends Error {
+  constructor(
+    message: string,
+    readonly category: AnalysisErrorCategory,
+    readonly retryAfterMs?: number // Delay requested by the server, if any
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+
+  get isRetryable(): boolean {
+    return RETRYABLE_CATEGORIES.includes(this.category);
+  }
+}
+
+export function categorizeHttpStatus(status: number): AnalysisErrorCategory {
+  if (status === 429) return 'quota';
+  if (status === 408 || status >= 500) return 'server';
+  return 'unknown';
+}
+
+// Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+export function parseRetryAfterHeader(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isRetryableAnalysisError(error: unknown): boolean {
+  return error instanceof AnalysisError && error.isRetryable;
+}
+
+export function errorCategoryOf(error: unknown): AnalysisErrorCategory {
+  return error instanceof AnalysisError ? error.category : 'unknown';
+}
+
+// The message shown on the file card, e.g. "Rate limit or quota exceeded. Wait a moment and retry."
+export function describeAnalysisError(error: unknown): string {
+  return CATEGORY_MESSAGES[errorCategoryOf(error)];
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisError } from './analysis-error';
+import { normalizeConfidence, parseAnalysisResult } from './analysis-prompt';
+
+const answer = {
+  folder: 'Finance/Invoices',
+  tags: ['invoice'],
+  summary: 'An invoice.',
+  suggestedFilename: 'invoice-2024-01',
+};
+
+describe('normalizeConfidence', () => {
+  it('leaves a missing or unreadable score unset', () => {
+    expect(normalizeConfidence(undefined)).toBeUndefined();
+    expect(normalizeConfidence(null)).toBeUndefined();
+    expect(normalizeConfidence('')).toBeUndefined();
+    expect(normalizeConfidence('high')).toBeUndefined();
+  });
+
+  it('keeps scores from 0 to 1', () => {
+    expect(normalizeConfidence(0)).toBe(0);
+    expect(normalizeConfidence(0.85)).toBe(0.85);
+    expect(normalizeConfidence('0.5')).toBe(0.5);
+    expect(normalizeConfidence(1)).toBe(1);
+  });
+
+  it('reads scores above 1 as percentages', () => {
+    expect(normalizeConfidence(85)).toBe(0.85);
+    expect(normalizeConfidence('40')).toBe(0.4);
+    expect(normalizeConfidence(100)).toBe(1);
+  });
+
+  it('clamps scores outside the range', () => {
+    expect(normalizeConfidence(-0.2)).toBe(0);
+    expect(normalizeConfidence(250)).toBe(1);
+  });
+
+  it('reads scores just above 1 as an overconfident fraction, not as a percentage', () => {
+    expect(normalizeConfidence(1.5)).toBe(1);
+    expect(normalizeConfidence('1.05')).toBe(1);
+    expect(normalizeConfidence(2)).toBe(0.02);
+  });
+});
+
+describe('parseAnalysisResult', () => {
+  it('leaves the confidence unset when the model gives none', () => {
+    expect(parseAnalysisResult(JSON.stringify(answer)).confidence).toBeUndefined();
+  });
+
+  it('reads an answer wrapped in a Markdown code fence', () => {
+    expect(parseAnalysisResult('```json\n' + JSON.stringify(answer) + '\n```').folder).toBe('Finance/Invoices');
+  });
+
+  it('rejects answers that are not a JSON object', () => {
+    for (const text of ['not json', '[]', 'null', '"Finance"', '42']) {
+      expect(() => parseAnalysisResult(text)).toThrow(AnalysisError);
+    }
+  });
+
+  it('rejects answers without a usable folder', () => {
+    const { folder, ...withoutFolder } = answer;
+    expect(() => parseAnalysisResult(JSON.stringify(withoutFolder))).toThrow('missing the "folder" field');
+    expect(() => parseAnalysisResult(JSON.stringify({ ...answer, folder: null }))).toThrow('missing the "folder" field');
+    expect(() => parseAnalysisResult(JSON.stringify({ ...answer, folder: ['Finance'] }))).toThrow('no usable "folder"');
+    expect(() => parseAnalysisResult(JSON.stringify({ ...answer, folder: '  ' }))).toThrow('no usable "folder"');
+  });
+
+  it('coerces or drops fields of the wrong type', () => {
+    const result = parseAnalysisResult(JSON.stringify({
+      folder: ' Finance/Invoices ',
+      tags: 'invoice, 2024,',
+      summary: { text: 'An invoice.' },
+      suggestedFilename: 20240115,
+      title: ['Invoice'],
+      documentDate: 20240115,
+      vendor: true,
+      totalAmount: { value: 12 },
+      currency: 978,
+      documentNumber: 4711,
+      alternatives: [null, 'Receipts', { folder: 7, reason: ['close'] }, { folder: 'finance/invoices' }],
+      extra: 'dropped',
+    }));
+    expect(result).toEqual({
+      folder: 'Finance/Invoices',
+      tags: ['invoice', '2024'],
+      summary: '',
+      suggestedFilename: '20240115',
+      title: '',
+      documentDate: '',
+      vendor: '',
+      totalAmount: '',
+      currency: '',
+      documentNumber: '4711',
+      confidence: undefined,
+      alternatives: [{ folder: '7', reason: '' }],
+    });
+  });
+
+  it('drops tags that are not text', () => {
+    expect(parseAnalysisResult(JSON.stringify({ ...answer, tags: ['invoice', null, { tag: 'x' }, 2024, ''] })).tags)
+      .toEqual(['invoice', '2024']);
+    expect(parseAnalysisResult(JSON.stringify({ ...answer, tags: { invoice: true } })).tags).toEqual([]);
+  });
+
+  it('reads the confidence as a fraction', () => {
+    expect(parseAnalysisResult(JSON.stringify({ ...answer, confidence: 0.7 })).confidence).toBe(0.7);
+    expect(parseAnalysisResult(JSON.stringify({ ...answer, confidence: 70 })).confidence).toBe(0.7);
+  });
+});
@@ -0,0 +1,183 @@
+import { AnalysisResult, FewShotExample, FolderAlternative, FolderOption } from './analysis-provider';
+import { AnalysisError } from './analysis-error';
+
+// Bump whenever the prompt or the response schema changes, so that cached results from the old prompt are not reused
+export const ANALYSIS_PROMPT_VERSION = 6;
+
+// Lists what the user wrote about their folders; folders without a description or keywords are left out
+function describeFolders(folders: FolderOption[]): string {
+  const lines = folders
+    .filter(folder => folder.description.trim() || folder.keywords.length > 0)
+    .map(folder => {
+      const keywords = folder.keywords.length > 0 ? ` (typical keywords: ${folder.keywords.join(', ')})` : '';
+      return `- ${folder.path}: ${folder.description.trim()}${keywords}`;
+    });
+  if (lines.length === 0) return '';
+  return `\nWhat belongs in these folders, as described by the user:\n${lines.join('\n')}\n`;
+}
+
+function describeExamples(examples: FewShotExample[]): string {
+  if (examples.length === 0) return '';
+  const lines = examples.map(example => {
+    const summary = example.summary ? ` (${example.summary})` : '';
+    const newName = example.newName ? `, renamed to "${example.newName}"` : '';
+    const folder = example.folder ? `went to "${example.folder}"` : 'was left where it was';
+    return `- "${example.fileName}"${summary} ${folder}${newName}`;
+  });
+  return `\n**Earlier Decisions:** The user corrected these earlier suggestions. Follow the same conventions for similar files:\n${lines.join('\n')}\n`;
+}
+
+function describeLanguages(languages: string[]): string {
+  return languages.length > 0 ? ` The files are usually in ${languages.join(' or ')}.` : '';
+}
+
+export function buildAnalysisPrompt(fileName: string, folders: FolderOption[], examples: FewShotExample[] = [], languages: string[] = []): string {
+  const paths = folders.map(folder => folder.path);
+  return `You are an expert multi-lingual file organizer. Your primary task is to analyze the provided file content and provide categorization details IN THE SAME LANGUAGE as the file's content.
+
+**CRITICAL INSTRUCTIONS:**
+1.  **Detect Language:** First, determine the primary language of the text content. If the file is an image with no text, use the language of the original filename ("${fileName}") as a guide, or default to English if unsure.${describeLanguages(languages)}
+2.  **Respond in Detected Language:** ALL of your text-based outputs (folder, tags, summary, suggested filename) MUST be in the language you detected in step 1.
+
+**Analysis Steps:**
+The available folder structure is: ${paths.join(', ')}.
+${describeFolders(folders)}${describeExamples(examples)}**IMPORTANT FOLDER SELECTION RULE:** You can choose any part of a path as a category. For example, if you are given 'Documents/Test/Banks/Transfers' as an option, you can choose 'Documents/Test/Banks/Transfers', 'Documents/Test/Banks', or 'Documents/Test' as the destination folder, whichever is most appropriate.
+
+1.  **Analyze Content:** Analyze the content of the file.
+2.  **Choose Folder:** Based on the rule above, choose the single most appropriate folder. If the existing folders fit, use one. If not, suggest a NEW folder name in the detected language. The folder name MUST be filesystem-friendly and not contain illegal characters for Windows filenames (e.g., < > : " / \\ | ? *).
+3.  **Generate Tags:** Generate a list of 3-5 relevant tags in the detected language.
+4.  **Create Summary/Caption:** Create a concise summary (for documents) or a descriptive caption (for images) in the detected language.
+5.  **Suggest Filename:** Suggest a new, filesystem-friendly filename in the detected language. It should be descriptive, use hyphens or underscores as separators (kebab-case or snake_case), and MUST preserve the original file extension. It MUST NOT contain any illegal characters for Windows filenames.
+6.  **Extract Details:** Give a short title (2-5 words), the date the content refers to (e.g. an invoice or letter date, as YYYY-MM-DD), and the company or person it comes from. Use an empty string for anything the file does not contain.
+7.  **Extract Financial Data:** For invoices, receipts and other financial documents, also give the total amount (digits with a dot as decimal separator, no currency symbol), its ISO 4217 currency code, and the invoice or receipt number. Use empty strings for other files.
+8.  **Rate Confidence:** Rate how sure you are that the chosen folder is right, from 0 (a guess) to 1 (certain). Then list up to 3 other folders that could also fit, best first, each with a reason of a few words in the detected language. Leave the list empty if no other folder fits.
+
+Respond with a JSON object.`;
+}
+
+export function buildDocumentContentPrompt(prompt: string, fileName: string, extractedText: string): string {
+  return `${prompt}\n\nHere is the content of the document "${fileName}":\n\n${extractedText}`;
+}
+
+export function buildOcrTextPrompt(prompt: string, fileName: string, ocrText: string): string {
+  return `${prompt}\n\nThis text was recognized in "${fileName}" by OCR and may contain recognition errors:\n\n${ocrText}`;
+}
+
+export function buildFileDescriptionPrompt(prompt: string, fileName: string, fileDescription: string): string {
+  return `${prompt}\n\nThe content of "${fileName}" can't be read. Classify it by its name, its path and these details alone, and rate your confidence accordingly:\n\n${fileDescription}`;
+}
+
+// Field descriptions shared by every provider's response schema.
+export function analysisFieldDescriptions(fileName: string, folders: FolderOption[]): Record<keyof AnalysisResult, string> {
+  return {
+    folder: `The suggested folder, IN THE DETECTED LANGUAGE of the file content. This must be filesystem-friendly. This can be one of [${folders.map(f => f.path).join(', ')}] or a new folder name if none are suitable. You can also choose a parent directory of any provided path.`,
+    tags: 'A list of 3-5 relevant tags, IN THE DETECTED LANGUAGE of the file content.',
+    summary: 'A summary for documents or a caption for images, IN THE DETECTED LANGUAGE of the file content.',
+    suggestedFilename: `A descriptive, filesystem-friendly filename IN THE DETECTED LANGUAGE that preserves the original extension from "${fileName}". It MUST NOT contain any illegal characters for Windows filenames (< > : " / \\ | ? *).`,
+    title: 'A short title of 2-5 words, IN THE DETECTED LANGUAGE of the file content.',
+    documentDate: 'The date the content refers to as YYYY-MM-DD (e.g. the invoice or letter date), or an empty string.',
+    vendor: 'The company or person the document comes from (e.g. the issuer of an invoice), or an empty string.',
+    totalAmount: 'For financial documents, the total amount with a dot as decimal separator and no currency symbol (e.g. "1234.50"), otherwise an empty string.',
+    currency: 'For financial documents, the ISO 4217 currency code of the total (e.g. "EUR"), otherwise an empty string.',
+    documentNumber: 'For financial documents, the invoice, receipt or order number, otherwise an empty string.',
+    confidence: 'How sure you are that the chosen folder is right, from 0 (a guess) to 1 (certain).',
+    alternatives: 'Up to 3 other folders that could also fit, best first, each with a short reason. Empty if no other folder fits.',
+  };
+}
+
+// Every field is listed as required in the response schemas, but only these are needed for a usable answer
+export const REQUIRED_ANALYSIS_FIELDS: (keyof AnalysisResult)[] = ['folder', 'tags', 'summary', 'suggestedFilename'];
+export const ANALYSIS_RESPONSE_FIELDS: (keyof AnalysisResult)[] = [
+  ...REQUIRED_ANALYSIS_FIELDS, 'title', 'documentDate', 'vendor', 'totalAmount', 'currency', 'documentNumber',
+  'confidence', 'alternatives',
+];
+
+const MAX_ALTERNATIVES = 3;
+
+// Accepts "1234.5", 1234.5 or "1,234.50"; anything that isn't clearly an amount becomes an empty string
+export function normalizeAmount(value: unknown): string {
+  const text = String(value ?? '').trim().replace(/[,\s]/g, '');
+  return /^-?\d+(\.\d+)?$/.test(text) ? text : '';
+}
+
+export function normalizeCurrency(value: unknown): string {
+  const text = String(value ?? '').trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(text) ? text : '';
+}
+
+// Accepts 0.85 as well as 85 (some models answer in percent). Values just above 1, like 1.5, are a slightly
+// overconfident fraction rather than 1.5 percent. A missing or unreadable value stays unset, so the file counts as not
+// scored rather than as a guess that needs review.
+export function normalizeConfidence(value: unknown): number | undefined {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(number)) return undefined;
+  const fraction = number >= 2 && number <= 100 ? number / 100 : number;
+  return Math.min(Math.max(fraction, 0), 1);
+}
+
+// Models sometimes answer with a number or a list where a string is expected; anything else counts as empty
+function normalizeText(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return '';
+}
+
+// A single comma-separated string is split up; anything that isn't text is dropped
+function normalizeTags(value: unknown): string[] {
+  const tags = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  return tags.map(normalizeText).filter(tag => tag);
+}
+
+function normalizeAlternatives(value: unknown, folder: string): FolderAlternative[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set([folder.toLowerCase()]);
+  const alternatives: FolderAlternative[] = [];
+  for (const item of value) {
+    const alternative = {
+      folder: normalizeText(item?.folder),
+      reason: normalizeText(item?.reason),
+    };
+    if (!alternative.folder || seen.has(alternative.folder.toLowerCase())) continue;
+    seen.add(alternative.folder.toLowerCase());
+    alternatives.push(alternative);
+  }
+  return alternatives.slice(0, MAX_ALTERNATIVES);
+}
+
+export function parseAnalysisResult(text: string): AnalysisResult {
+  // Local models often wrap their JSON in a Markdown code fence despite being asked not to
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let result;
+  try {
+    result = JSON.parse(json);
+  } catch {
+    throw new AnalysisError(`The analysis response is not valid JSON: ${json.slice(0, 200)}`, 'invalid-response');
+  }
+  if (typeof result !== 'object' || result === null || Array.isArray(result)) {
+    throw new AnalysisError(`The analysis response is not a JSON object: ${json.slice(0, 200)}`, 'invalid-response');
+  }
+  for (const field of REQUIRED_ANALYSIS_FIELDS) {
+    if (result[field] === undefined || result[field] === null) {
+      throw new AnalysisError(`The analysis response is missing the "${field}" field.`, 'invalid-response');
+    }
+  }
+  const folder = normalizeText(result.folder);
+  if (!folder) {
+    throw new AnalysisError('The analysis response has no usable "folder" field.', 'invalid-response');
+  }
+  const documentDate = normalizeText(result.documentDate);
+  return {
+    folder,
+    tags: normalizeTags(result.tags),
+    summary: normalizeText(result.summary),
+    suggestedFilename: normalizeText(result.suggestedFilename),
+    title: normalizeText(result.title),
+    documentDate: /^\d{4}-\d{2}-\d{2}$/.test(documentDate) ? documentDate : '',
+    vendor: normalizeText(result.vendor),
+    totalAmount: normalizeAmount(result.totalAmount),
+    currency: normalizeCurrency(result.currency),
+    documentNumber: normalizeText(result.documentNumber),
+    confidence: normalizeConfidence(result.confidence),
+    alternatives: normalizeAlternatives(result.alternatives, folder),
+  };
+}
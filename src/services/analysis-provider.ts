@@ -0,0 +1,78 @@
+export interface FileForProcessing {
+  name: string;
+  type: string;
+  extractedText?: string;
+  fileDescription?: string; // For files whose content can't be read, see describeFile()
+  ocrText?: string; // Text recognized in a scan or photo, sent with its image data or instead of it
+  languages?: string[]; // The languages the user expects the files to be in, e.g. ["English", "German"]
+  // Sent when there is no text: the file itself, a downscaled copy or sample pages, see prepareContent()
+  inlineData?: InlineData[];
+}
+
+export interface InlineData {
+  mimeType: string;
+  base64Data: string;
+}
+
+export interface AnalysisResult {
+  folder: string;
+  tags: string[];
+  summary: string;
+  suggestedFilename: string;
+  // Structured fields for filename templates; empty when the file has none
+  title: string;
+  documentDate: string; // yyyy-mm-dd
+  vendor: string;
+  // Invoices, receipts and other financial documents only
+  totalAmount: string; // e.g. "1234.50"
+  currency: string; // ISO 4217 code, e.g. "EUR"
+  documentNumber: string;
+  confidence?: number; // 0 to 1, how sure the model is about the folder; unset if the model gave no usable score
+  alternatives: FolderAlternative[]; // Other folders that could fit, best first
+}
+
+export interface FolderAlternative {
+  folder: string;
+  reason: string;
+}
+
+// A destination folder as it is offered to the AI
+export interface FolderOption {
+  path: string; // e.g. "Finance/Invoices"
+  description: string;
+  keywords: string[];
+}
+
+// A past correction by the user, shown to the AI as an example of their conventions
+export interface FewShotExample {
+  fileName: string;
+  summary: string;
+  folder: string; // Empty when the user left the file where it was
+  newName: string; // Empty when the user only changed the folder
+}
+
+export type AnalysisProviderId = 'gemini' | 'openai-compatible';
+
+export interface ProviderSettings {
+  model: string;
+  baseUrl: string; // Only used by providers with requiresBaseUrl
+  apiKey: string; // Optional for providers that have a key from the environment or need none
+}
+
+// An AI backend that can categorize a file. AppComponent only talks to providers through this interface.
+export interface AnalysisProvider {
+  readonly id: AnalysisProviderId;
+  readonly label: string;
+  readonly defaultModel: string;
+  readonly requiresBaseUrl: boolean;
+  readonly defaultBaseUrl: string;
+
+  // The signal is aborted when the user cancels the file; implementations should stop the request and reject.
+  analyzeFile(
+    file: FileForProcessing,
+    folders: FolderOption[],
+    examples: FewShotExample[],
+    settings: ProviderSettings,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult>;
+}
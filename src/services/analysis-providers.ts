@@ -0,0 +1,10 @@
+import { InjectionToken, inject } from '@angular/core';
+import { AnalysisProvider } from './analysis-provider';
+import { GeminiService } from './gemini.service';
+import { OpenAiCompatibleService } from './openai-compatible.service';
+
+// Every provider the user can choose from, in the order they are listed in the UI.
+export const ANALYSIS_PROVIDERS = new InjectionToken<AnalysisProvider[]>('ANALYSIS_PROVIDERS', {
+  providedIn: 'root',
+  factory: () => [inject(GeminiService), inject(OpenAiCompatibleService)],
+});
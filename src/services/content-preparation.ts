@@ -0,0 +1,204 @@
+import { AnalysisError } from './analysis-error';
+import { FileForProcessing, InlineData } from './analysis-provider';
+import { canvasToJpegBase64, downscaleImage, imageDimensions } from '../utils/image-resize';
+import { openPdf, readPdfText, renderPdfPage, samplePageNumbers } from '../utils/pdf-content';
+
+// Limits on what is sent to the AI for a single file, so that large files stay fast and within the model's limits.
+export interface ContentBudget {
+  maxUploadMb: number; // Larger images and PDFs are reduced instead of being sent as they are
+  maxTextTokens: number; // Longer text is cut off
+  pdfTextPages: number; // Pages whose text is sent for PDFs with a text layer
+  pdfSamplePages: number; // Pages sent as images for scanned PDFs above the upload limit
+  maxImageDimension: number; // In pixels, for images and rendered PDF pages
+}
+
+export const DEFAULT_CONTENT_BUDGET: ContentBudget = {
+  maxUploadMb: 4,
+  maxTextTokens: 8000,
+  pdfTextPages: 10,
+  pdfSamplePages: 3,
+  maxImageDimension: 1536,
+};
+
+const CHARACTERS_PER_TOKEN = 4; // A rough average for English and other European languages
+const MIN_TEXT_LAYER_CHARACTERS = 50; // Scans often have a few characters of text, e.g. from a stamp or a page number
+const OCR_IMAGE_DIMENSION = 2000; // Small print needs more pixels to be recognized than the AI needs to see a page
+
+// The parts of an added file that the analysis needs.
+export interface ContentSource {
+  name: string;
+  type: string;
+  originalFile: Blob;
+  extractedText?: string;
+  extractedBy?: string; // The label of the text extractor that produced extractedText
+  fileDescription?: string;
+}
+
+export interface PreparedContent {
+  file: FileForProcessing;
+  strategy: string; // How the file is sent, shown on its card, e.g. "Text of pages 1-10 of 200"
+  ocrText?: string; // The full recognized text, kept with the file so that it isn't recognized again
+}
+
+export interface OcrOptions {
+  recognize(image: Blob | HTMLCanvasElement): Promise<string>;
+  textOnly: boolean; // Send the recognized text instead of the image data, which costs far fewer tokens
+}
+
+// extractedBy of files whose extractedText was recognized by OCR
+export const OCR_TEXT_LABEL = 'OCR';
+
+function readAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function sendWhole(source: ContentSource, strategy: string): Promise<PreparedContent> {
+  const base64Data = await readAsBase64(source.originalFile);
+  return { file: { name: source.name, type: source.type, inlineData: [{ mimeType: source.type, base64Data }] }, strategy };
+}
+
+export function shortenText(text: string, maxTokens: number): { text: string; isShortened: boolean } {
+  const maxLength = maxTokens * CHARACTERS_PER_TOKEN;
+  if (text.length <= maxLength) return { text, isShortened: false };
+  return { text: `${text.slice(0, maxLength)}\n[...]`, isShortened: true };
+}
+
+function withTextLimit(strategy: string, isShortened: boolean, budget: ContentBudget): string {
+  return isShortened ? `${strategy}, first ~${budget.maxTextTokens} tokens` : strategy;
+}
+
+// Adds the recognized text to the image data of a scan or photo, or sends it instead if the user chose so.
+async function withOcrText(
+  prepareImageData: () => Promise<PreparedContent>,
+  ocrText: string,
+  textOnlyStrategy: string,
+  source: ContentSource,
+  budget: ContentBudget,
+  ocr: OcrOptions | undefined
+): Promise<PreparedContent> {
+  if (!ocrText) return prepareImageData();
+  const shortened = shortenText(ocrText, budget.maxTextTokens);
+  if (ocr?.textOnly) {
+    return {
+      file: { name: source.name, type: source.type, ocrText: shortened.text },
+      strategy: withTextLimit(textOnlyStrategy, shortened.isShortened, budget),
+      ocrText,
+    };
+  }
+  const prepared = await prepareImageData();
+  return {
+    file: { ...prepared.file, ocrText: shortened.text },
+    strategy: `${prepared.strategy}, with OCR text`,
+    ocrText,
+  };
+}
+
+// Text recognized in an earlier analysis is reused; otherwise the pages are recognized now if OCR is enabled
+async function recognizeText(source: ContentSource, ocr: OcrOptions | undefined, recognize: (ocr: OcrOptions) => Promise<string[]>): Promise<string> {
+  if (source.extractedBy === OCR_TEXT_LABEL && source.extractedText) return source.extractedText;
+  if (!ocr) return '';
+  try {
+    const pages = await recognize(ocr);
+    if (pages.join('').length < MIN_TEXT_LAYER_CHARACTERS) return '';
+    return pages.length > 1 ? pages.map((page, i) => `--- Page ${i + 1} ---\n${page}`).join('\n\n') : pages[0];
+  } catch (error) {
+    // OCR only adds to the analysis, which works without it
+    console.error(`Could not recognize the text of ${source.name}:`, error);
+    return '';
+  }
+}
+
+async function preparePdf(source: ContentSource, budget: ContentBudget, ocr: OcrOptions | undefined): Promise<PreparedContent> {
+  const base = { name: source.name, type: source.type };
+  const maxBytes = budget.maxUploadMb * 1024 * 1024;
+  let pdf;
+  try {
+    pdf = await openPdf(source.originalFile);
+  } catch {
+    // Damaged or password-protected PDFs may still be readable by the AI
+    if (source.originalFile.size > maxBytes) throw new AnalysisError('The PDF could not be opened to reduce it.', 'too-large');
+    return sendWhole(source, 'Whole PDF');
+  }
+
+  try {
+    const pageCount = pdf.numPages;
+    const pages = await readPdfText(pdf, budget.pdfTextPages);
+    const text = pages.map((page, i) => `--- Page ${i + 1} ---\n${page}`).join('\n\n');
+    if (pages.join('').length >= MIN_TEXT_LAYER_CHARACTERS) {
+      const shortened = shortenText(text, budget.maxTextTokens);
+      const strategy = pages.length < pageCount ? `Text of pages 1-${pages.length} of ${pageCount}` : `Text of all ${pageCount} pages`;
+      return { file: { ...base, extractedText: shortened.text }, strategy: withTextLimit(strategy, shortened.isShortened, budget) };
+    }
+
+    // A scan: small ones are sent whole, large ones as a few rendered pages
+    const ocrPageCount = Math.min(budget.pdfTextPages, pageCount);
+    const ocrText = await recognizeText(source, ocr, async ({ recognize }) => {
+      const recognized: string[] = [];
+      for (let pageNumber = 1; pageNumber <= ocrPageCount; pageNumber++) {
+        recognized.push(await recognize(await renderPdfPage(pdf, pageNumber, OCR_IMAGE_DIMENSION)));
+      }
+      return recognized;
+    });
+    return await withOcrText(async () => {
+      if (source.originalFile.size <= maxBytes) return sendWhole(source, 'Whole PDF (scanned)');
+      const pageNumbers = samplePageNumbers(pageCount, budget.pdfSamplePages);
+      const inlineData: InlineData[] = [];
+      for (const pageNumber of pageNumbers) {
+        const canvas = await renderPdfPage(pdf, pageNumber, budget.maxImageDimension);
+        inlineData.push({ mimeType: 'image/jpeg', base64Data: canvasToJpegBase64(canvas) });
+      }
+      return { file: { ...base, inlineData }, strategy: `Scanned: pages ${pageNumbers.join(', ')} of ${pageCount} as images` };
+    }, ocrText, `OCR text of pages 1-${ocrPageCount} of ${pageCount}`, source, budget, ocr);
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+async function prepareImage(source: ContentSource, budget: ContentBudget, ocr: OcrOptions | undefined): Promise<PreparedContent> {
+  const base = { name: source.name, type: source.type };
+  const maxBytes = budget.maxUploadMb * 1024 * 1024;
+  let dimensions: { width: number; height: number };
+  try {
+    dimensions = await imageDimensions(source.originalFile);
+  } catch {
+    // A format the browser can't decode, such as HEIC outside Safari, can only be sent as it is
+    if (source.originalFile.size > maxBytes) throw new AnalysisError('The image could not be decoded to reduce it.', 'too-large');
+    return sendWhole(source, 'Original image');
+  }
+
+  const ocrText = await recognizeText(source, ocr, async ({ recognize }) => [await recognize(source.originalFile)]);
+  return withOcrText(async () => {
+    if (source.originalFile.size <= maxBytes && Math.max(dimensions.width, dimensions.height) <= budget.maxImageDimension) {
+      return sendWhole(source, 'Original image');
+    }
+    const scaled = await downscaleImage(source.originalFile, budget.maxImageDimension);
+    return {
+      file: { ...base, inlineData: [{ mimeType: 'image/jpeg', base64Data: scaled.base64Data }] },
+      strategy: `Downscaled from ${scaled.originalWidth}×${scaled.originalHeight} to ${scaled.width}×${scaled.height}`,
+    };
+  }, ocrText, 'OCR text of the image', source, budget, ocr);
+}
+
+// Decides how a file is sent to the AI within the budget: as text, as the file itself, or reduced. Scans and photos
+// also get their text recognized if OCR is enabled.
+export async function prepareContent(source: ContentSource, budget: ContentBudget, ocr?: OcrOptions): Promise<PreparedContent> {
+  const base = { name: source.name, type: source.type };
+  if (source.extractedText && source.extractedBy !== OCR_TEXT_LABEL) {
+    const shortened = shortenText(source.extractedText, budget.maxTextTokens);
+    return {
+      file: { ...base, extractedText: shortened.text },
+      strategy: withTextLimit(`Read as ${source.extractedBy ?? 'text'}`, shortened.isShortened, budget),
+    };
+  }
+  if (source.fileDescription) {
+    return { file: { ...base, fileDescription: source.fileDescription }, strategy: 'Name and details only' };
+  }
+  if (source.type === 'application/pdf') return preparePdf(source, budget, ocr);
+  if (source.type.startsWith('image/')) return prepareImage(source, budget, ocr);
+  throw new AnalysisError(`${source.name} has no content that can be analyzed.`, 'unsupported');
+}
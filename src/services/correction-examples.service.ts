@@ -0,0 +1,85 @@
+import { Injectable } from '@angular/core';
+import { FewShotExample } from './analysis-provider';
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexed-db';
+
+const DB_NAME = 'ai-file-organizer-examples';
+const DB_VERSION = 1;
+const EXAMPLES_STORE = 'examples';
+const MAX_EXAMPLES = 200; // The oldest examples are dropped beyond this
+
+// A folder or name the user chose instead of the AI's suggestion. Kept across sessions.
+export interface CorrectionExample extends FewShotExample {
+  id: string; // The content hash of the file, so that correcting the same file again replaces the example
+  createdAt: number;
+  fileType: string;
+  tags: string[];
+  aiFolder: string;
+  aiName: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class CorrectionExamplesService {
+  readonly isSupported = typeof indexedDB !== 'undefined';
+
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= openDatabase(DB_NAME, DB_VERSION, db => db.createObjectStore(EXAMPLES_STORE, { keyPath: 'id' }));
+    return this.db;
+  }
+
+  // Newest first. Examples only improve the analysis, so failing to read or write them is logged and otherwise ignored.
+  async list(): Promise<CorrectionExample[]> {
+    try {
+      const db = await this.open();
+      const examples = await requestToPromise<CorrectionExample[]>(
+        db.transaction(EXAMPLES_STORE).objectStore(EXAMPLES_STORE).getAll()
+      );
+      return examples.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+      console.error('Could not read the correction examples:', error);
+      return [];
+    }
+  }
+
+  async put(example: CorrectionExample): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(EXAMPLES_STORE, 'readwrite');
+      const store = transaction.objectStore(EXAMPLES_STORE);
+      store.put(example);
+      const examples = await requestToPromise<CorrectionExample[]>(store.getAll());
+      examples
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(MAX_EXAMPLES)
+        .forEach(old => store.delete(old.id));
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('Could not save the correction example:', error);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(EXAMPLES_STORE, 'readwrite');
+      transaction.objectStore(EXAMPLES_STORE).delete(id);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('Could not delete the correction example:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(EXAMPLES_STORE, 'readwrite');
+      transaction.objectStore(EXAMPLES_STORE).clear();
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('Could not delete the correction examples:', error);
+    }
+  }
+}
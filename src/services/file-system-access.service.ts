@@ -0,0 +1,154 @@
+import { Injectable } from '@angular/core';
+
+// The File System Access API is only implemented in Chromium browsers and is not part of the standard DOM typings.
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+    showSaveFilePicker?: (options?: {
+      suggestedName?: string;
+      types?: { description: string; accept: Record<string, string[]> }[];
+    }) => Promise<FileSystemFileHandle>;
+  }
+  interface FileSystemHandle {
+    requestPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  }
+  interface FileSystemDirectoryHandle {
+    values(): AsyncIterableIterator<FileSystemHandle>;
+  }
+}
+
+export interface PickedFile {
+  file: File;
+  relativePath: string; // e.g., "ToSort/invoice-scan.pdf", matching webkitRelativePath
+}
+
+export type MoveResult = 'moved' | 'destination-exists' | 'source-missing';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class FileSystemAccessService {
+  readonly isSupported = typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+  readonly canPickSaveFile = typeof window !== 'undefined' && typeof window.showSaveFilePicker === 'function';
+
+  async pickDirectory(id: string): Promise<FileSystemDirectoryHandle | null> {
+    if (!window.showDirectoryPicker) return null;
+    try {
+      return await window.showDirectoryPicker({ id, mode: 'readwrite' });
+    } catch (error: unknown) {
+      // The user closed the picker without choosing a folder
+      if (error instanceof DOMException && error.name === 'AbortError') return null;
+      throw error;
+    }
+  }
+
+  // Lets the user choose where a download is saved, so that it can be written piece by piece. Returns null if the user
+  // cancelled.
+  async pickSaveFile(suggestedName: string, description: string, mimeType: string): Promise<FileSystemFileHandle | null> {
+    if (!window.showSaveFilePicker) return null;
+    const extension = suggestedName.slice(suggestedName.lastIndexOf('.'));
+    try {
+      return await window.showSaveFilePicker({ suggestedName, types: [{ description, accept: { [mimeType]: [extension] } }] });
+    } catch (error: unknown) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null;
+      throw error;
+    }
+  }
+
+  async ensureWritable(directory: FileSystemDirectoryHandle): Promise<boolean> {
+    if (!directory.requestPermission) return true;
+    return (await directory.requestPermission({ mode: 'readwrite' })) === 'granted';
+  }
+
+  // Lists the files inside the directory and up to maxDepth levels of subfolders, with paths relative to its parent.
+  async listFiles(directory: FileSystemDirectoryHandle, maxDepth = 0, parentPath = directory.name): Promise<PickedFile[]> {
+    const files: PickedFile[] = [];
+    for await (const entry of directory.values()) {
+      const relativePath = `${parentPath}/${entry.name}`;
+      if (entry.kind === 'file') {
+        const file = await (entry as FileSystemFileHandle).getFile();
+        files.push({ file, relativePath });
+      } else if (maxDepth > 0) {
+        files.push(...await this.listFiles(entry as FileSystemDirectoryHandle, maxDepth - 1, relativePath));
+      }
+    }
+    return files;
+  }
+
+  // Lists every nested folder as a '/'-separated path relative to the directory.
+  async listFolderPaths(directory: FileSystemDirectoryHandle, parentPath = ''): Promise<string[]> {
+    const paths: string[] = [];
+    for await (const entry of directory.values()) {
+      if (entry.kind === 'directory') {
+        const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+        paths.push(path, ...await this.listFolderPaths(entry as FileSystemDirectoryHandle, path));
+      }
+    }
+    return paths;
+  }
+
+  async getDirectory(root: FileSystemDirectoryHandle, relativePath: string, create: boolean): Promise<FileSystemDirectoryHandle> {
+    let current = root;
+    for (const part of relativePath.split('/').filter(p => p)) {
+      current = await current.getDirectoryHandle(part, { create });
+    }
+    return current;
+  }
+
+  async fileExists(directory: FileSystemDirectoryHandle, name: string): Promise<boolean> {
+    try {
+      await directory.getFileHandle(name);
+      return true;
+    } catch (error: unknown) {
+      // A folder with the same name blocks the path just like a file would
+      if (error instanceof DOMException && error.name === 'TypeMismatchError') return true;
+      if (error instanceof DOMException && error.name === 'NotFoundError') return false;
+      throw error;
+    }
+  }
+
+  // Copies the file to its destination and only then removes the original, so a failed write never loses data.
+  async moveFile(
+    file: File,
+    sourceDirectory: FileSystemDirectoryHandle,
+    sourceName: string,
+    destinationDirectory: FileSystemDirectoryHandle,
+    destinationName: string,
+    overwrite: boolean
+  ): Promise<MoveResult> {
+    if (!await this.fileExists(sourceDirectory, sourceName)) return 'source-missing';
+    if (!overwrite && await this.fileExists(destinationDirectory, destinationName)) return 'destination-exists';
+
+    // On case-insensitive filesystems a case-only rename would write over the original and then delete it
+    const isSameDirectory = await sourceDirectory.isSameEntry(destinationDirectory);
+    if (isSameDirectory && sourceName.toLowerCase() === destinationName.toLowerCase()) return 'destination-exists';
+
+    const destinationHandle = await destinationDirectory.getFileHandle(destinationName, { create: true });
+    const writable = await destinationHandle.createWritable();
+    try {
+      await writable.write(file);
+      await writable.close();
+    } catch (error) {
+      await writable.abort();
+      throw error;
+    }
+
+    await sourceDirectory.removeEntry(sourceName);
+    return 'moved';
+  }
+
+  // Returns false, without writing, if the file exists and may not be overwritten.
+  async writeFile(directory: FileSystemDirectoryHandle, name: string, content: string | Blob, overwrite: boolean): Promise<boolean> {
+    if (!overwrite && await this.fileExists(directory, name)) return false;
+    const handle = await directory.getFileHandle(name, { create: true });
+    const writable = await handle.createWritable();
+    try {
+      await writable.write(content);
+      await writable.close();
+    } catch (error) {
+      await writable.abort();
+      throw error;
+    }
+    return true;
+  }
+}
@@ -1,26 +1,29 @@
 import { Injectable } from '@angular/core';
-import { GoogleGenAI, Type } from '@google/genai';
+import { ApiError, FinishReason, GoogleGenAI, Type } from '@google/genai';
+import { AnalysisProvider, AnalysisResult, FewShotExample, FileForProcessing, FolderOption, ProviderSettings } from './analysis-provider';
+import { AnalysisError, categorizeHttpStatus } from './analysis-error';
+import { analysisFieldDescriptions, ANALYSIS_RESPONSE_FIELDS, buildAnalysisPrompt, buildDocumentContentPrompt, buildFileDescriptionPrompt, buildOcrTextPrompt, parseAnalysisResult } from './analysis-prompt';
 
-export interface FileForProcessing {
-  name: string;
-  type: string;
-  dataUrl: string;
-  base64Data: string;
-  extractedText?: string;
-}
-
-export interface AnalysisResult {
-  folder: string;
-  tags: string[];
-  summary: string;
-  suggestedFilename: string;
-}
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
 
 @Injectable({
   providedIn: 'root',
 })
-export class GeminiService {
+export class GeminiService implements AnalysisProvider {
+  readonly id = 'gemini';
+  readonly label = 'Google Gemini';
+  readonly defaultModel = 'gemini-2.5-flash';
+  readonly requiresBaseUrl = false;
+  readonly defaultBaseUrl = '';
+
   private genAI: GoogleGenAI;
+  private genAIForCustomKey: { apiKey: string; client: GoogleGenAI } | null = null;
 
   constructor() {
     // This is a placeholder for the API key.
@@ -32,86 +35,149 @@ export class GeminiService {
     this.genAI = new GoogleGenAI({ apiKey });
   }
 
+  // A key entered in the UI takes precedence over the one from the environment.
+  private clientFor(apiKey: string): GoogleGenAI {
+    if (!apiKey) return this.genAI;
+    if (this.genAIForCustomKey?.apiKey !== apiKey) {
+      this.genAIForCustomKey = { apiKey, client: new GoogleGenAI({ apiKey }) };
+    }
+    return this.genAIForCustomKey.client;
+  }
+
   async analyzeFile(
     file: FileForProcessing,
-    folders: string[]
+    folders: FolderOption[],
+    examples: FewShotExample[],
+    settings: ProviderSettings,
+    signal?: AbortSignal
   ): Promise<AnalysisResult> {
-    
-    try {
-      const prompt = `You are an expert multi-lingual file organizer. Your primary task is to analyze the provided file content and provide categorization details IN THE SAME LANGUAGE as the file's content.
-
-**CRITICAL INSTRUCTIONS:**
-1.  **Detect Language:** First, determine the primary language of the text content. If the file is an image with no text, use the language of the original filename ("${file.name}") as a guide, or default to English if unsure.
-2.  **Respond in Detected Language:** ALL of your text-based outputs (folder, tags, summary, suggested filename) MUST be in the language you detected in step 1.
 
-**Analysis Steps:**
-The available folder structure is: ${folders.join(', ')}.
-**IMPORTANT FOLDER SELECTION RULE:** You can choose any part of a path as a category. For example, if you are given 'Documents/Test/Banks/Transfers' as an option, you can choose 'Documents/Test/Banks/Transfers', 'Documents/Test/Banks', or 'Documents/Test' as the destination folder, whichever is most appropriate.
-
-1.  **Analyze Content:** Analyze the content of the file.
-2.  **Choose Folder:** Based on the rule above, choose the single most appropriate folder. If the existing folders fit, use one. If not, suggest a NEW folder name in the detected language. The folder name MUST be filesystem-friendly and not contain illegal characters for Windows filenames (e.g., < > : " / \\ | ? *).
-3.  **Generate Tags:** Generate a list of 3-5 relevant tags in the detected language.
-4.  **Create Summary/Caption:** Create a concise summary (for documents) or a descriptive caption (for images) in the detected language.
-5.  **Suggest Filename:** Suggest a new, filesystem-friendly filename in the detected language. It should be descriptive, use hyphens or underscores as separators (kebab-case or snake_case), and MUST preserve the original file extension. It MUST NOT contain any illegal characters for Windows filenames.
+    try {
+      const prompt = buildAnalysisPrompt(file.name, folders, examples, file.languages);
 
-Respond with a JSON object.`;
-      
       let contents;
       if (file.extractedText) {
-          // This is a docx file, send text content
-          const fullPrompt = `${prompt}\n\nHere is the content of the document "${file.name}":\n\n${file.extractedText}`;
+          // The text extracted from a document, send text content
+          const fullPrompt = buildDocumentContentPrompt(prompt, file.name, file.extractedText);
+          contents = { parts: [{ text: fullPrompt }] };
+      } else if (file.fileDescription) {
+          const fullPrompt = buildFileDescriptionPrompt(prompt, file.name, file.fileDescription);
           contents = { parts: [{ text: fullPrompt }] };
       } else {
-          // This is an image or PDF, send file data
-          const filePart = {
+          // This is an image or PDF, send file data: the file itself, a smaller copy or sample pages
+          const fileParts = (file.inlineData ?? []).map(data => ({
               inlineData: {
-                  mimeType: file.type,
-                  data: file.base64Data,
+                  mimeType: data.mimeType,
+                  data: data.base64Data,
               },
-          };
-          const textPart = { text: prompt };
-          contents = { parts: [filePart, textPart] };
+          }));
+          const textPart = { text: file.ocrText ? buildOcrTextPrompt(prompt, file.name, file.ocrText) : prompt };
+          contents = { parts: [...fileParts, textPart] };
       }
 
-      const response = await this.genAI.models.generateContent({
-        model: 'gemini-2.5-flash',
+      const descriptions = analysisFieldDescriptions(file.name, folders);
+      const response = await this.clientFor(settings.apiKey).models.generateContent({
+        model: settings.model || this.defaultModel,
         contents: contents,
         config: {
+            abortSignal: signal,
             responseMimeType: "application/json",
             responseSchema: {
                 type: Type.OBJECT,
                 properties: {
                     folder: {
                         type: Type.STRING,
-                        description: `The suggested folder, IN THE DETECTED LANGUAGE of the file content. This must be filesystem-friendly. This can be one of [${folders.join(', ')}] or a new folder name if none are suitable. You can also choose a parent directory of any provided path.`
+                        description: descriptions.folder
                     },
                     tags: {
                         type: Type.ARRAY,
                         items: { type: Type.STRING },
-                        description: 'A list of 3-5 relevant tags, IN THE DETECTED LANGUAGE of the file content.'
+                        description: descriptions.tags
                     },
                     summary: {
                         type: Type.STRING,
-                        description: 'A summary for documents or a caption for images, IN THE DETECTED LANGUAGE of the file content.'
+                        description: descriptions.summary
                     },
                     suggestedFilename: {
                         type: Type.STRING,
-                        description: `A descriptive, filesystem-friendly filename IN THE DETECTED LANGUAGE that preserves the original extension from "${file.name}". It MUST NOT contain any illegal characters for Windows filenames (< > : " / \\ | ? *).`
+                        description: descriptions.suggestedFilename
+                    },
+                    title: {
+                        type: Type.STRING,
+                        description: descriptions.title
+                    },
+                    documentDate: {
+                        type: Type.STRING,
+                        description: descriptions.documentDate
+                    },
+                    vendor: {
+                        type: Type.STRING,
+                        description: descriptions.vendor
+                    },
+                    totalAmount: {
+                        type: Type.STRING,
+                        description: descriptions.totalAmount
+                    },
+                    currency: {
+                        type: Type.STRING,
+                        description: descriptions.currency
+                    },
+                    documentNumber: {
+                        type: Type.STRING,
+                        description: descriptions.documentNumber
+                    },
+                    confidence: {
+                        type: Type.NUMBER,
+                        description: descriptions.confidence
+                    },
+                    alternatives: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                folder: { type: Type.STRING },
+                                reason: { type: Type.STRING }
+                            },
+                            required: ['folder', 'reason']
+                        },
+                        description: descriptions.alternatives
                     }
                 },
-                required: ['folder', 'tags', 'summary', 'suggestedFilename']
+                required: ANALYSIS_RESPONSE_FIELDS
             }
         }
       });
 
-      const resultJson = response.text.trim();
-      const result: AnalysisResult = JSON.parse(resultJson);
-      
-      return result;
+      if (response.promptFeedback?.blockReason) {
+        throw new AnalysisError(`Prompt blocked: ${response.promptFeedback.blockReason}`, 'safety');
+      }
+      const finishReason = response.candidates?.[0]?.finishReason;
+      if (SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new AnalysisError(`Response blocked: ${finishReason}`, 'safety');
+      }
+
+      return parseAnalysisResult(response.text ?? '');
 
     } catch (error) {
+      // A cancelled request is not a failure; let the caller recognize it
+      if (signal?.aborted) throw signal.reason;
       console.error('Error calling Gemini API:', error);
-      throw new Error('Failed to get analysis from Gemini.');
+      throw this.toAnalysisError(error);
+    }
+  }
+
+  private toAnalysisError(error: unknown): AnalysisError {
+    if (error instanceof AnalysisError) return error;
+    if (error instanceof ApiError) {
+      // 429 responses carry a RetryInfo detail such as "retryDelay": "17s" in the JSON error body
+      const retryDelay = /"retryDelay"\s*:\s*"([\d.]+)s"/.exec(error.message);
+      const retryAfterMs = retryDelay ? parseFloat(retryDelay[1]) * 1000 : undefined;
+      return new AnalysisError(error.message, categorizeHttpStatus(error.status), retryAfterMs);
     }
+    // fetch() rejects with a TypeError when the request never reached the server
+    if (error instanceof TypeError) {
+      return new AnalysisError(error.message, 'network');
+    }
+    return new AnalysisError(error instanceof Error ? error.message : String(error), 'unknown');
   }
-}
\ No newline at end of file
+}
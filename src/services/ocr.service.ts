@@ -0,0 +1,68 @@
+import { Injectable } from '@angular/core';
+import type { Worker as TesseractWorker } from 'tesseract.js';
+
+// Recognition runs in a web worker in the browser. The engine, its WebAssembly core and the language data are
+// bundled with the app (see the assets in angular.json) and loaded from it, so neither the files nor their text are
+// sent anywhere for OCR.
+const TESSERACT_ASSETS = 'tesseract';
+
+export interface OcrLanguage {
+  code: string; // Tesseract's language code
+  name: string; // In English, as used in the analysis prompt
+}
+
+// Only the languages whose data is bundled, see angular.json
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'eng', name: 'English' },
+  { code: 'deu', name: 'German' },
+  { code: 'fra', name: 'French' },
+  { code: 'spa', name: 'Spanish' },
+  { code: 'ita', name: 'Italian' },
+  { code: 'por', name: 'Portuguese' },
+  { code: 'nld', name: 'Dutch' },
+];
+
+export function ocrLanguageNames(codes: string[]): string[] {
+  return codes.map(code => OCR_LANGUAGES.find(l => l.code === code)?.name ?? code);
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class OcrService {
+  readonly isSupported = typeof window !== 'undefined' && typeof Worker !== 'undefined' && typeof WebAssembly !== 'undefined';
+
+  // One worker for the selected languages; it queues the pages of all files analyzed in parallel
+  private current: { languages: string; worker: Promise<TesseractWorker> } | null = null;
+
+  async recognize(image: Blob | HTMLCanvasElement, languages: string[]): Promise<string> {
+    const worker = await this.workerFor(languages);
+    const { data } = await worker.recognize(image);
+    return data.text.trim();
+  }
+
+  private async createWorker(languages: string[]): Promise<TesseractWorker> {
+    // The engine is only loaded once OCR is used
+    const { createWorker } = await import('tesseract.js');
+    const assets = new URL(`${TESSERACT_ASSETS}/`, document.baseURI).href;
+    return createWorker(languages, undefined, {
+      workerPath: `${assets}worker.min.js`,
+      corePath: `${assets}core`,
+      langPath: `${assets}lang`,
+    });
+  }
+
+  private workerFor(languages: string[]): Promise<TesseractWorker> {
+    const key = languages.join('+');
+    if (this.current?.languages !== key) {
+      this.current?.worker.then(worker => worker.terminate()).catch(() => undefined);
+      const worker = this.createWorker(languages);
+      // A failed start, e.g. when the browser can't run the WebAssembly core, is tried again next time
+      worker.catch(() => {
+        if (this.current?.worker === worker) this.current = null;
+      });
+      this.current = { languages: key, worker };
+    }
+    return this.current.worker;
+  }
+}
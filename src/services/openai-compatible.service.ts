@@ -0,0 +1,124 @@
+import { Injectable } from '@angular/core';
+import { AnalysisProvider, AnalysisResult, FewShotExample, FileForProcessing, FolderOption, ProviderSettings } from './analysis-provider';
+import { AnalysisError, categorizeHttpStatus, parseRetryAfterHeader } from './analysis-error';
+import { analysisFieldDescriptions, ANALYSIS_RESPONSE_FIELDS, buildAnalysisPrompt, buildDocumentContentPrompt, buildFileDescriptionPrompt, buildOcrTextPrompt, parseAnalysisResult } from './analysis-prompt';
+
+// Talks to any server implementing the OpenAI Chat Completions API, such as a local Ollama or llama.cpp server,
+// so that documents never have to leave the local network.
+@Injectable({
+  providedIn: 'root',
+})
+export class OpenAiCompatibleService implements AnalysisProvider {
+  readonly id = 'openai-compatible';
+  readonly label = 'OpenAI-compatible server (Ollama, llama.cpp, ...)';
+  readonly defaultModel = 'llama3.2-vision';
+  readonly requiresBaseUrl = true;
+  readonly defaultBaseUrl = 'http://localhost:11434/v1';
+
+  async analyzeFile(
+    file: FileForProcessing,
+    folders: FolderOption[],
+    examples: FewShotExample[],
+    settings: ProviderSettings,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult> {
+    const prompt = buildAnalysisPrompt(file.name, folders, examples, file.languages);
+
+    let content;
+    if (file.extractedText) {
+      content = buildDocumentContentPrompt(prompt, file.name, file.extractedText);
+    } else if (file.fileDescription) {
+      content = buildFileDescriptionPrompt(prompt, file.name, file.fileDescription);
+    } else if (file.inlineData?.length && file.inlineData.every(data => data.mimeType.startsWith('image/'))) {
+      content = [
+        ...file.inlineData.map(data => ({ type: 'image_url', image_url: { url: `data:${data.mimeType};base64,${data.base64Data}` } })),
+        { type: 'text', text: file.ocrText ? buildOcrTextPrompt(prompt, file.name, file.ocrText) : prompt },
+      ];
+    } else if (file.ocrText) {
+      // A scanned PDF can still be analyzed by its recognized text
+      content = buildOcrTextPrompt(prompt, file.name, file.ocrText);
+    } else {
+      // The Chat Completions API has no way to attach a PDF
+      throw new AnalysisError(`${file.name} can only be analyzed by a provider that reads ${file.type} files directly.`, 'unsupported');
+    }
+
+    const descriptions = analysisFieldDescriptions(file.name, folders);
+    const body = {
+      model: settings.model || this.defaultModel,
+      messages: [{ role: 'user', content }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: 'file_analysis',
+          strict: true,
+          schema: {
+            type: 'object',
+            properties: {
+              folder: { type: 'string', description: descriptions.folder },
+              tags: { type: 'array', items: { type: 'string' }, description: descriptions.tags },
+              summary: { type: 'string', description: descriptions.summary },
+              suggestedFilename: { type: 'string', description: descriptions.suggestedFilename },
+              title: { type: 'string', description: descriptions.title },
+              documentDate: { type: 'string', description: descriptions.documentDate },
+              vendor: { type: 'string', description: descriptions.vendor },
+              totalAmount: { type: 'string', description: descriptions.totalAmount },
+              currency: { type: 'string', description: descriptions.currency },
+              documentNumber: { type: 'string', description: descriptions.documentNumber },
+              confidence: { type: 'number', description: descriptions.confidence },
+              alternatives: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { folder: { type: 'string' }, reason: { type: 'string' } },
+                  required: ['folder', 'reason'],
+                  additionalProperties: false,
+                },
+                description: descriptions.alternatives,
+              },
+            },
+            required: ANALYSIS_RESPONSE_FIELDS,
+            additionalProperties: false,
+          },
+        },
+      },
+    };
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    try {
+      const baseUrl = (settings.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '');
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!response.ok) {
+        throw new AnalysisError(
+          `Server responded with ${response.status} ${response.statusText}`,
+          categorizeHttpStatus(response.status),
+          parseRetryAfterHeader(response.headers.get('Retry-After'))
+        );
+      }
+
+      const data = await response.json();
+      const choice = data.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new AnalysisError('Response blocked by the content filter.', 'safety');
+      }
+      return parseAnalysisResult(choice?.message?.content ?? '');
+
+    } catch (error) {
+      // A cancelled request is not a failure; let the caller recognize it
+      if (signal?.aborted) throw signal.reason;
+      console.error('Error calling OpenAI-compatible API:', error);
+      if (error instanceof AnalysisError) throw error;
+      // fetch() rejects with a TypeError when the server cannot be reached (or blocks the request via CORS)
+      if (error instanceof TypeError) throw new AnalysisError(error.message, 'network');
+      throw new AnalysisError(error instanceof Error ? error.message : String(error), 'unknown');
+    }
+  }
+}
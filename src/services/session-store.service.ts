@@ -0,0 +1,193 @@
+import { Injectable } from '@angular/core';
+import { AnalysisErrorCategory } from './analysis-error';
+import { AnalysisProviderId, FolderAlternative } from './analysis-provider';
+import { ContentBudget } from './content-preparation';
+import { ArchiveLocation } from '../utils/archive-expansion';
+import { ScriptTarget } from '../utils/script-generators';
+import { CollisionStrategy } from '../utils/collisions';
+import { DuplicateHandling, DuplicateKind } from '../utils/duplicates';
+import { FileRule } from '../utils/rules';
+import { FolderNode } from '../utils/folder-tree';
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexed-db';
+
+const DB_NAME = 'ai-file-organizer';
+const DB_VERSION = 1;
+// Listing sessions only touches SESSIONS_STORE; the file lists and the file contents live in their own stores
+const SESSIONS_STORE = 'sessions';
+const STATES_STORE = 'session-states';
+const BLOBS_STORE = 'session-blobs'; // Keyed by [sessionId, fileId]
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  fileCount: number;
+}
+
+// An AppFile without its contents. Files that were queued or being analyzed are stored as pending.
+export interface StoredFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  originalPath: string;
+  archive?: ArchiveLocation;
+  contentHash?: string;
+  perceptualHash?: string;
+  exifDate?: number;
+  extractedText?: string;
+  extractedBy?: string;
+  contentStrategy?: string;
+  fileDescription?: string;
+  status: 'pending' | 'done' | 'error';
+  suggestion?: string;
+  finalFolder?: string;
+  tags?: string[];
+  summary?: string;
+  suggestedName?: string;
+  aiSuggestedName?: string;
+  title?: string;
+  documentDate?: string;
+  vendor?: string;
+  totalAmount?: string;
+  currency?: string;
+  documentNumber?: string;
+  confidence?: number;
+  alternatives?: FolderAlternative[];
+  reviewed?: boolean;
+  proposedFolder?: string;
+  useNewName: boolean;
+  cached?: boolean;
+  matchedRule?: string;
+  duplicateOf?: string;
+  possibleDuplicateOf?: string;
+  duplicateKind?: DuplicateKind;
+  duplicateDismissed?: boolean;
+  errorMessage?: string;
+  errorCategory?: AnalysisErrorCategory;
+  applyStatus?: 'applied' | 'skipped' | 'failed';
+  applyMessage?: string;
+}
+
+export interface SessionState {
+  files: StoredFile[];
+  folderTree: FolderNode[];
+  folders?: string; // Comma-separated paths, only in sessions saved before folderTree existed
+  // Missing in sessions saved before rules, templates, script targets, collision and duplicate handling existed
+  rules?: FileRule[];
+  filenameTemplate?: string;
+  sourceFolderName: string | null;
+  destinationFolderName: string | null;
+  manualSourcePath: string;
+  manualDestinationPath: string;
+  // Directory handles survive in IndexedDB, but the browser asks for permission again before they can be used
+  sourceDirectoryHandle: FileSystemDirectoryHandle | null;
+  destinationDirectoryHandle: FileSystemDirectoryHandle | null;
+  providerId: AnalysisProviderId;
+  providerModel: string;
+  providerBaseUrl: string; // The API key is deliberately not stored
+  scriptTarget?: ScriptTarget;
+  collisionStrategy?: CollisionStrategy;
+  duplicateHandling?: DuplicateHandling;
+  autoAcceptThreshold: number;
+  contentBudget?: ContentBudget; // Missing in sessions saved before the budget could be configured
+  // Missing in sessions saved before OCR was available
+  ocrEnabled?: boolean;
+  ocrLanguages?: string[];
+  ocrTextOnly?: boolean;
+  strictTaxonomy: boolean;
+  learnFromCorrections: boolean;
+}
+
+export interface LoadedSession {
+  summary: SessionSummary;
+  state: SessionState;
+  blobs: Map<string, Blob>; // By file ID
+}
+
+function blobKeysOf(sessionId: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId], [sessionId, []]);
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SessionStoreService {
+  readonly isSupported = typeof indexedDB !== 'undefined';
+
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= openDatabase(DB_NAME, DB_VERSION, db => {
+      db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      db.createObjectStore(STATES_STORE);
+      db.createObjectStore(BLOBS_STORE);
+    });
+    return this.db;
+  }
+
+  // Most recently updated first
+  async listSessions(): Promise<SessionSummary[]> {
+    const db = await this.open();
+    const sessions = await requestToPromise<SessionSummary[]>(
+      db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll()
+    );
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async loadSession(id: string): Promise<LoadedSession | null> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSIONS_STORE, STATES_STORE, BLOBS_STORE]);
+    const summary = await requestToPromise<SessionSummary | undefined>(transaction.objectStore(SESSIONS_STORE).get(id));
+    const state = await requestToPromise<SessionState | undefined>(transaction.objectStore(STATES_STORE).get(id));
+    if (!summary || !state) return null;
+
+    const blobStore = transaction.objectStore(BLOBS_STORE);
+    const [keys, values] = await Promise.all([
+      requestToPromise(blobStore.getAllKeys(blobKeysOf(id))),
+      requestToPromise<Blob[]>(blobStore.getAll(blobKeysOf(id))),
+    ]);
+    const blobs = new Map<string, Blob>();
+    keys.forEach((key, i) => blobs.set((key as [string, string])[1], values[i]));
+
+    return { summary, state, blobs };
+  }
+
+  // Only the blobs in newBlobs are written; blobs of files that are no longer in the session are removed.
+  async saveSession(summary: SessionSummary, state: SessionState, newBlobs: Map<string, Blob>): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSIONS_STORE, STATES_STORE, BLOBS_STORE], 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).put(summary);
+    transaction.objectStore(STATES_STORE).put(state, summary.id);
+
+    const blobStore = transaction.objectStore(BLOBS_STORE);
+    newBlobs.forEach((blob, fileId) => blobStore.put(blob, [summary.id, fileId]));
+
+    const fileIds = new Set(state.files.map(f => f.id));
+    const keys = await requestToPromise(blobStore.getAllKeys(blobKeysOf(summary.id)));
+    for (const key of keys) {
+      if (!fileIds.has((key as [string, string])[1])) blobStore.delete(key);
+    }
+
+    return transactionDone(transaction);
+  }
+
+  async renameSession(id: string, name: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSIONS_STORE);
+    const summary = await requestToPromise<SessionSummary | undefined>(store.get(id));
+    if (summary) store.put({ ...summary, name });
+    return transactionDone(transaction);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSIONS_STORE, STATES_STORE, BLOBS_STORE], 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).delete(id);
+    transaction.objectStore(STATES_STORE).delete(id);
+    transaction.objectStore(BLOBS_STORE).delete(blobKeysOf(id));
+    return transactionDone(transaction);
+  }
+}
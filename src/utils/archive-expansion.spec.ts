@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ARCHIVE_LIMITS, expandZipArchive } from './archive-expansion';
+import { CraftedEntry, craftZip } from './testing/crafted-zip';
+
+async function nested(path: string, entries: CraftedEntry[]): Promise<CraftedEntry> {
+  return { path, data: new Uint8Array(await craftZip(entries).arrayBuffer()) };
+}
+
+function summarize(files: { file: File; entryPath: string[] }[]) {
+  return files.map(({ file, entryPath }) => ({ name: file.name, type: file.type, entryPath }));
+}
+
+describe('expandZipArchive', () => {
+  it('reads the files of nested archives and skips folders and system files', async () => {
+    const { files, warnings } = await expandZipArchive(craftZip([
+      { path: 'Scans/', data: '' },
+      { path: 'Scans/invoice.pdf', data: '%PDF-1.7', method: 8 },
+      { path: 'Scans/.DS_Store', data: 'x' },
+      { path: '__MACOSX/Scans/._invoice.pdf', data: 'x' },
+      await nested('2024.zip', [{ path: 'photo.JPG', data: 'jpeg' }, { path: 'Thumbs.db', data: 'x' }]),
+      { path: 'notes', data: 'no extension' },
+    ]));
+    expect(summarize(files)).toEqual([
+      { name: 'invoice.pdf', type: 'application/pdf', entryPath: ['Scans/invoice.pdf'] },
+      { name: 'photo.JPG', type: 'image/jpeg', entryPath: ['2024.zip', 'photo.JPG'] },
+      { name: 'notes', type: '', entryPath: ['notes'] },
+    ]);
+    expect(await files[0].file.text()).toBe('%PDF-1.7');
+    expect(files[0].file.lastModified).toBe(new Date(2024, 2, 15, 10, 30, 20).getTime());
+    expect(warnings).toEqual([]);
+  });
+
+  it('adds archives nested too deeply as files', async () => {
+    const archive = craftZip([await nested('a.zip', [await nested('b.zip', [await nested('c.zip', [{ path: 'deep.txt', data: 'x' }])])])]);
+    const { files, warnings } = await expandZipArchive(archive);
+    expect(summarize(files)).toEqual([{ name: 'c.zip', type: 'application/zip', entryPath: ['a.zip', 'b.zip', 'c.zip'] }]);
+    expect(warnings).toEqual(['a.zip/b.zip/c.zip is nested too deeply to be opened and is added as a file.']);
+
+    const shallow = await expandZipArchive(archive, { ...DEFAULT_ARCHIVE_LIMITS, maxDepth: 1 });
+    expect(shallow.warnings).toEqual(['a.zip is nested too deeply to be opened and is added as a file.']);
+  });
+
+  it('stops after the maximum number of files, across nested archives', async () => {
+    const archive = craftZip([{ path: 'a.txt', data: 'a' }, await nested('b.zip', [{ path: 'b.txt', data: 'b' }, { path: 'c.txt', data: 'c' }]), { path: 'd.txt', data: 'd' }]);
+    const { files, warnings } = await expandZipArchive(archive, { ...DEFAULT_ARCHIVE_LIMITS, maxFiles: 2 });
+    expect(files.map(f => f.file.name)).toEqual(['a.txt', 'b.txt']);
+    expect(warnings).toEqual(['Stopped after 2 files.']);
+  });
+
+  it('stops once the files add up to more than the maximum size', async () => {
+    const half = new Uint8Array(600 * 1024);
+    const archive = craftZip([{ path: 'a.bin', data: half }, { path: 'b.bin', data: half }, { path: 'c.bin', data: 'c' }]);
+    const { files, warnings } = await expandZipArchive(archive, { ...DEFAULT_ARCHIVE_LIMITS, maxTotalMb: 1 });
+    expect(files.map(f => f.file.name)).toEqual(['a.bin']);
+    expect(warnings).toEqual(['Stopped at b.bin: the files add up to more than 1 MB.']);
+  });
+
+  // The stated sizes decide, so a zip bomb is skipped before anything is inflated
+  it('skips large entries that are compressed suspiciously well', async () => {
+    const { files, warnings } = await expandZipArchive(craftZip([
+      { path: 'bomb.bin', data: new Uint8Array(2 * 1024 * 1024), method: 8 },
+      { path: 'log.txt', data: 'same line\n'.repeat(50_000), method: 8 },
+    ]));
+    expect(files.map(f => f.file.name)).toEqual(['log.txt']);
+    expect(warnings).toEqual(['bomb.bin was skipped: it is compressed more than 100 times.']);
+  });
+
+  it('warns about entries that cannot be read and keeps going', async () => {
+    const { files, warnings } = await expandZipArchive(craftZip([
+      { path: 'secret.pdf', data: 'x', flags: 0x0801 },
+      { path: 'old.txt', data: 'x', method: 12 },
+      { path: 'lying.bin', data: new Uint8Array(4096), method: 8, size: 16 },
+      { path: 'broken.zip', data: 'not a zip' },
+      { path: 'ok.txt', data: 'ok' },
+    ]));
+    expect(summarize(files)).toEqual([
+      { name: 'broken.zip', type: 'application/zip', entryPath: ['broken.zip'] },
+      { name: 'ok.txt', type: 'text/plain', entryPath: ['ok.txt'] },
+    ]);
+    expect(warnings).toEqual([
+      'secret.pdf could not be read: secret.pdf is encrypted.',
+      'old.txt could not be read: old.txt uses an unsupported compression method.',
+      'lying.bin could not be read: The ZIP archive is damaged.',
+      'broken.zip could not be opened and is added as a file: The file is not a ZIP archive.',
+    ]);
+  });
+
+  it('throws if the archive itself cannot be read', async () => {
+    await expect(expandZipArchive(new Blob(['not a zip']))).rejects.toThrow('The file is not a ZIP archive.');
+    const archive = craftZip([{ path: 'a.txt', data: 'a' }]);
+    await expect(expandZipArchive(archive.slice(0, archive.size - 4))).rejects.toThrow('The file is not a ZIP archive.');
+  });
+});
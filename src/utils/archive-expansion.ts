@@ -0,0 +1,134 @@
+import { isSystemFile } from './source-scan';
+import { fileExtension } from './text-extractors';
+import { readZipEntries } from './zip-reader';
+
+// Where a file that was added inside a ZIP archive comes from.
+export interface ArchiveLocation {
+  archivePath: string; // The archive as it was added, e.g. "ToSort/bundle.zip"
+  entryPath: string[]; // The path inside it, with one more for each nested archive, e.g. ["2024.zip", "invoice.pdf"]
+}
+
+// Limits that keep zip bombs and huge archives from filling the browser's memory.
+export interface ArchiveLimits {
+  maxDepth: number; // Archives are expanded up to this many levels, counting the added archive
+  maxFiles: number;
+  maxTotalMb: number; // Uncompressed, across all nested archives
+  maxCompressionRatio: number; // Large entries compressed more than this are typical for zip bombs
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxDepth: 3,
+  maxFiles: 1000,
+  maxTotalMb: 500,
+  maxCompressionRatio: 100,
+};
+
+export interface ExpandedFile {
+  file: File;
+  entryPath: string[];
+}
+
+export interface ExpandedArchive {
+  files: ExpandedFile[];
+  warnings: string[]; // What was skipped and why, e.g. "Stopped after 1000 files."
+}
+
+// Smaller entries are never zip bombs, however well they compress, e.g. a log file full of repeated lines
+const MIN_SUSPICIOUS_SIZE = 1024 * 1024;
+
+const ZIP_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+// Archives don't store types, but the analysis decides by them how to read a file
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  htm: 'text/html',
+  eml: 'message/rfc822',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  zip: 'application/zip',
+};
+
+export function isZipArchive(file: { name: string; type: string }): boolean {
+  return fileExtension(file.name) === 'zip' || ZIP_TYPES.includes(file.type);
+}
+
+interface ExpansionState {
+  limits: ArchiveLimits;
+  result: ExpandedArchive;
+  totalBytes: number;
+  isStopped: boolean;
+}
+
+async function expandInto(archive: Blob, parentPath: string[], state: ExpansionState): Promise<void> {
+  const { limits, result } = state;
+  const entries = await readZipEntries(archive);
+  for (const entry of entries) {
+    const name = entry.path.split('/').pop() ?? '';
+    // Folders, and the resource forks and hidden files that macOS adds to archives
+    if (entry.isDirectory || entry.path.startsWith('__MACOSX/') || isSystemFile(name)) continue;
+    if (state.isStopped) return;
+
+    const entryPath = [...parentPath, entry.path];
+    const label = entryPath.join('/');
+    if (result.files.length >= limits.maxFiles) {
+      result.warnings.push(`Stopped after ${limits.maxFiles} files.`);
+      state.isStopped = true;
+      return;
+    }
+    if (entry.size >= MIN_SUSPICIOUS_SIZE && entry.size > entry.compressedSize * limits.maxCompressionRatio) {
+      result.warnings.push(`${label} was skipped: it is compressed more than ${limits.maxCompressionRatio} times.`);
+      continue;
+    }
+    if (state.totalBytes + entry.size > limits.maxTotalMb * 1024 * 1024) {
+      result.warnings.push(`Stopped at ${label}: the files add up to more than ${limits.maxTotalMb} MB.`);
+      state.isStopped = true;
+      return;
+    }
+    state.totalBytes += entry.size;
+
+    let data: Uint8Array;
+    try {
+      data = await entry.read();
+    } catch (error: unknown) {
+      result.warnings.push(`${label} could not be read: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+    const type = TYPES_BY_EXTENSION[fileExtension(name)] ?? '';
+    const file = new File([data], name, { type, lastModified: entry.lastModified });
+
+    if (isZipArchive(file) && entryPath.length < limits.maxDepth) {
+      try {
+        await expandInto(file, entryPath, state);
+        continue;
+      } catch (error: unknown) {
+        result.warnings.push(`${label} could not be opened and is added as a file: ${error instanceof Error ? error.message : error}`);
+      }
+    } else if (isZipArchive(file)) {
+      result.warnings.push(`${label} is nested too deeply to be opened and is added as a file.`);
+    }
+    result.files.push({ file, entryPath });
+  }
+}
+
+// Reads the files of a ZIP archive, and of the archives inside it, into memory. Throws if the archive itself can't
+// be read; problems with single entries and the limits end up in the warnings.
+export async function expandZipArchive(archive: Blob, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): Promise<ExpandedArchive> {
+  const state: ExpansionState = { limits, result: { files: [], warnings: [] }, totalBytes: 0, isStopped: false };
+  await expandInto(archive, [], state);
+  return state.result;
+}
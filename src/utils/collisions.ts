@@ -0,0 +1,69 @@
+import { DO_NOT_MOVE, PlannableFile, isMovedFile, originalFileName, originalFolder, targetFileName } from './script-generators';
+
+export type CollisionStrategy = 'suffix' | 'keep-original' | 'skip';
+
+// Windows filesystems are case-insensitive, so 'Invoice.pdf' and 'invoice.pdf' end up in the same place.
+export function destinationKey(file: PlannableFile): string {
+  const location = isMovedFile(file) ? `destination:${file.finalFolder}` : `source:${originalFolder(file)}`;
+  return `${location}/${targetFileName(file)}`.toLowerCase();
+}
+
+// Files that stay exactly where they are cannot be adjusted by the script, so they always keep their name.
+function isLeftInPlace(file: PlannableFile): boolean {
+  return !isMovedFile(file) && targetFileName(file) === originalFileName(file);
+}
+
+// Returns groups of two or more files that would end up at the same destination path.
+export function findCollisions<T extends PlannableFile>(files: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const file of files) {
+    const key = destinationKey(file);
+    groups.set(key, [...(groups.get(key) ?? []), file]);
+  }
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+function withSuffix(fileName: string, counter: number): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  if (dotIndex <= 0) return `${fileName}-${counter}`;
+  return `${fileName.slice(0, dotIndex)}-${counter}${fileName.slice(dotIndex)}`;
+}
+
+// Keeps the first file of every colliding group as is and adjusts the rest according to the strategy.
+// Falls back to numbered suffixes when the strategy alone does not make the destination unique.
+export function resolveCollisions<T extends PlannableFile>(files: T[], strategy: CollisionStrategy): T[] {
+  const reserved = new Set(files.map(f => destinationKey(f)));
+  const taken = new Set<string>();
+  const resolved = new Map<T, T>();
+
+  const claimOrder = [...files.filter(isLeftInPlace), ...files.filter(f => !isLeftInPlace(f))];
+  for (const file of claimOrder) {
+    const key = destinationKey(file);
+    if (!taken.has(key)) {
+      taken.add(key);
+      resolved.set(file, file);
+      continue;
+    }
+
+    let candidate: T = file;
+    if (strategy === 'keep-original') {
+      candidate = { ...file, useNewName: false };
+    } else if (strategy === 'skip') {
+      candidate = { ...file, finalFolder: DO_NOT_MOVE, useNewName: false };
+    }
+
+    const candidateKey = destinationKey(candidate);
+    if (candidate === file || taken.has(candidateKey) || reserved.has(candidateKey)) {
+      const baseName = targetFileName(candidate);
+      let counter = 2;
+      do {
+        candidate = { ...candidate, suggestedName: withSuffix(baseName, counter++), useNewName: true };
+      } while (taken.has(destinationKey(candidate)) || reserved.has(destinationKey(candidate)));
+    }
+
+    taken.add(destinationKey(candidate));
+    resolved.set(file, candidate);
+  }
+
+  return files.map(f => resolved.get(f) ?? f);
+}
@@ -0,0 +1,6 @@
+// Hex-encoded SHA-256. crypto.subtle is only available in secure contexts (https or localhost).
+export async function sha256Hex(data: Blob | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : await data.arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
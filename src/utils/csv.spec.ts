@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+import { createManifest, manifestToCsv, parseManifest } from './manifest';
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines']])).toBe('\uFEFF"a,b","say ""hi""","two\nlines"\r\n');
+  });
+
+  it('puts an apostrophe in front of fields that spreadsheets would run as formulas', () => {
+    const csv = toCsv([['=HYPERLINK("http://example.com")', '+A1', '-x', '@SUM(A1)', '\tname', '\rname']]);
+    expect(csv).toBe('\uFEFF"\'=HYPERLINK(""http://example.com"")",\'+A1,\'-x,\'@SUM(A1),\'\tname,"\'\rname"\r\n');
+  });
+
+  it('leaves plain numbers and other fields alone', () => {
+    expect(toCsv([['-12.50', 42, 'invoice.pdf', "'90s.jpg"]])).toBe("\uFEFF-12.50,42,invoice.pdf,'90s.jpg\r\n");
+  });
+
+  it('reads back what it wrote', () => {
+    const rows = [['=1+1', "'=1+1", "''@x", '-12.50', "'90s.jpg", 'a "quoted", text']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('manifestToCsv', () => {
+  it('keeps formulas in file names and summaries from running', () => {
+    const manifest = createManifest([{
+      originalPath: '=cmd|\' /C calc\'!A0.pdf',
+      folder: 'Finance',
+      fileName: '@invoice.pdf',
+      tags: ['invoice'],
+      summary: '+An invoice.',
+      status: 'done',
+      error: '',
+    }], null);
+    expect(manifestToCsv(manifest).split('\r\n')[1]).toBe("'=cmd|' /C calc'!A0.pdf,Finance,'@invoice.pdf,invoice,'+An invoice.,done,");
+
+    const [entry] = parseManifest(manifestToCsv(manifest), 'manifest.csv');
+    expect(entry.originalPath).toBe('=cmd|\' /C calc\'!A0.pdf');
+    expect(entry.fileName).toBe('@invoice.pdf');
+    expect(entry.summary).toBe('+An invoice.');
+  });
+});
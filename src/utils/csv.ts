@@ -0,0 +1,62 @@
+// Spreadsheets run fields that start with one of these as formulas, e.g. a file named "=HYPERLINK(...).pdf". Such
+// fields get an apostrophe in front, which spreadsheets show as text; apostrophes already in front get one more, so
+// that parseCsv() can take it off again. Plain numbers like "-12.50" are left alone.
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+const NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+function csvField(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  if (FORMULA_START.test(text) && !NUMBER.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function unescapeFormula(field: string): string {
+  return field.startsWith("'") && FORMULA_START.test(field) ? field.slice(1) : field;
+}
+
+// RFC 4180 CSV with a BOM, so that Excel detects UTF-8 (and non-English vendor names survive)
+export function toCsv(rows: (string | number | undefined)[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Reads CSV as written by toCsv() or a spreadsheet: quoted fields, doubled quotes, line breaks inside quotes and
+// the apostrophes in front of formulas
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(unescapeFormula(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(unescapeFormula(field));
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(unescapeFormula(field));
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value !== ''));
+}
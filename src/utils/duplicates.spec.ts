@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicateGroups } from './duplicates';
+
+const original = { id: 'original', size: 200, contentHash: 'aaa', perceptualHash: '0000000000000000' };
+const copy = { id: 'copy', size: 200, contentHash: 'aaa', perceptualHash: '0000000000000000' };
+const resized = { id: 'resized', size: 100, contentHash: 'bbb', perceptualHash: '0000000000000001' };
+
+describe('findDuplicateGroups', () => {
+  it('groups identical files and images that look the same', () => {
+    expect(findDuplicateGroups([original, copy, resized])).toEqual([
+      { kind: 'similar-image', ids: ['original', 'copy', 'resized'] },
+    ]);
+  });
+
+  it('only groups identical files when asked for exact duplicates', () => {
+    expect(findDuplicateGroups([original, copy, resized], ['exact'])).toEqual([
+      { kind: 'exact', ids: ['original', 'copy'] },
+    ]);
+  });
+
+  it('only groups files that are alike when asked for similar ones', () => {
+    expect(findDuplicateGroups([original, resized], ['similar-image', 'similar-text'])).toEqual([
+      { kind: 'similar-image', ids: ['original', 'resized'] },
+    ]);
+    expect(findDuplicateGroups([original, copy], ['similar-text'])).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import { hammingDistance } from './perceptual-hash';
+
+export type DuplicateKind = 'exact' | 'similar-image' | 'similar-text';
+export type DuplicateHandling = 'move-to-folder' | 'skip';
+
+// Where the scripts and "Apply now" put duplicates when they are not skipped
+export const DUPLICATES_FOLDER = 'Duplicates';
+
+// Images whose difference hashes differ in at most this many of 64 bits are considered the same picture
+const MAX_IMAGE_HASH_DISTANCE = 6;
+// Documents sharing at least this fraction of their word triples are considered the same text
+const MIN_TEXT_SIMILARITY = 0.9;
+// Shorter texts (e.g. a scanned form with a few words) are too likely to match by accident
+const MIN_WORDS_FOR_TEXT_SIMILARITY = 20;
+
+export interface DuplicateCandidate {
+  id: string;
+  size: number;
+  contentHash?: string;
+  perceptualHash?: string;
+  extractedText?: string;
+}
+
+export interface DuplicateGroup {
+  kind: DuplicateKind;
+  ids: string[]; // Largest file first, which is usually the best copy to keep
+}
+
+function wordShingles(text: string): Set<string> | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length < MIN_WORDS_FOR_TEXT_SIMILARITY) return null;
+  const shingles = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) {
+    shingles.add(words.slice(i, i + 3).join(' '));
+  }
+  return shingles;
+}
+
+function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach(shingle => {
+    if (b.has(shingle)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+const ALL_DUPLICATE_KINDS: DuplicateKind[] = ['exact', 'similar-image', 'similar-text'];
+
+// Groups files with identical contents, images that look the same, and documents with (nearly) the same text, or
+// only the given kinds of those. Only identical files are certain duplicates; the others are just very alike.
+export function findDuplicateGroups(candidates: DuplicateCandidate[], kinds: DuplicateKind[] = ALL_DUPLICATE_KINDS): DuplicateGroup[] {
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  const shingles = candidates.map(c => (c.extractedText && kinds.includes('similar-text') ? wordShingles(c.extractedText) : null));
+  for (let a = 0; a < candidates.length; a++) {
+    for (let b = a + 1; b < candidates.length; b++) {
+      const first = candidates[a];
+      const second = candidates[b];
+      const isExact = kinds.includes('exact') && !!first.contentHash && first.contentHash === second.contentHash;
+      const isSimilarImage = kinds.includes('similar-image') && !!first.perceptualHash && !!second.perceptualHash
+        && hammingDistance(first.perceptualHash, second.perceptualHash) <= MAX_IMAGE_HASH_DISTANCE;
+      const firstShingles = shingles[a];
+      const secondShingles = shingles[b];
+      const isSimilarText = !!firstShingles && !!secondShingles
+        && jaccardSimilarity(firstShingles, secondShingles) >= MIN_TEXT_SIMILARITY;
+      if (isExact || isSimilarImage || isSimilarText) union(a, b);
+    }
+  }
+
+  const members = new Map<number, DuplicateCandidate[]>();
+  candidates.forEach((candidate, i) => {
+    const root = find(i);
+    members.set(root, [...(members.get(root) ?? []), candidate]);
+  });
+
+  return Array.from(members.values())
+    .filter(group => group.length > 1)
+    .map(group => {
+      const kind: DuplicateKind = kinds.includes('exact') && group.every(c => c.contentHash && c.contentHash === group[0].contentHash)
+        ? 'exact'
+        : group.every(c => c.perceptualHash) ? 'similar-image' : 'similar-text';
+      return { kind, ids: [...group].sort((a, b) => b.size - a.size).map(c => c.id) };
+    });
+}
@@ -0,0 +1,164 @@
+import { htmlToText } from './html-text';
+
+// The headers that say what an email is about; the rest are routing details
+const SHOWN_HEADERS = ['from', 'to', 'cc', 'date', 'subject'];
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string; // Still transfer-encoded, one character per byte
+}
+
+function parsePart(raw: string): MimePart {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const headerText = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator ? raw.slice(separator.index + separator[0].length) : '';
+  const headers = new Map<string, string>();
+  // Long headers continue on lines that start with whitespace
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+// A parameter of a header such as Content-Type, e.g. the charset or the boundary
+function headerParameter(header: string | undefined, name: string): string | undefined {
+  const match = new RegExp(`;\\s*${name}\\*?=\\s*("([^"]*)"|[^;\\s]+)`, 'i').exec(header ?? '');
+  return match ? (match[2] ?? match[1]) : undefined;
+}
+
+function decodeBytes(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // An unknown charset label
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+  return Uint8Array.from(binary, char => char.charCodeAt(0) & 0xff);
+}
+
+function bytesToBinary(bytes: Uint8Array): string {
+  const CHUNK_SIZE = 0x8000; // Stays below the argument limit of String.fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return binary;
+}
+
+// Headers are ASCII with encoded words, but some mail clients write them as raw UTF-8
+function decodeHeader(value: string): string {
+  return decodeEncodedWords(decodeBytes(binaryToBytes(value)));
+}
+
+function decodeQuotedPrintable(text: string): string {
+  return text.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeTransferEncoding(body: string, encoding: string | undefined): Uint8Array {
+  switch (encoding?.toLowerCase()) {
+    case 'base64':
+      try {
+        return binaryToBytes(atob(body.replace(/[^A-Za-z0-9+/=]/g, '')));
+      } catch {
+        return binaryToBytes(body);
+      }
+    case 'quoted-printable':
+      return binaryToBytes(decodeQuotedPrintable(body));
+    default:
+      return binaryToBytes(body);
+  }
+}
+
+// Subjects and names with non-ASCII characters are written as "=?utf-8?B?...?=" or "=?iso-8859-1?Q?...?="
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BQ]\?[^?]*\?=)\s+(?==\?)/gi, '$1')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+      const binary = encoding.toUpperCase() === 'B' ? atob(text) : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeBytes(binaryToBytes(binary), charset);
+    });
+}
+
+interface EmailContent {
+  plainText: string[];
+  htmlText: string[];
+  attachments: string[];
+}
+
+function collectContent(part: MimePart, content: EmailContent): void {
+  const contentType = part.headers.get('content-type') ?? 'text/plain';
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  const disposition = part.headers.get('content-disposition') ?? '';
+  const fileName = headerParameter(disposition, 'filename') ?? headerParameter(contentType, 'name');
+
+  if (mediaType.startsWith('multipart/')) {
+    const boundary = headerParameter(contentType, 'boundary');
+    if (!boundary) return;
+    const sections = part.body.split(`--${boundary}`);
+    // The text before the first boundary is a preamble for old mail clients, the text after the last one is ignored
+    for (const section of sections.slice(1)) {
+      if (section.startsWith('--')) break;
+      collectContent(parsePart(section.replace(/^\r?\n/, '')), content);
+    }
+  } else if (disposition.toLowerCase().startsWith('attachment') || (fileName && !mediaType.startsWith('text/'))) {
+    content.attachments.push(decodeHeader(fileName ?? mediaType));
+  } else if (mediaType === 'text/plain' || mediaType === 'text/html') {
+    const bytes = decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding'));
+    const text = decodeBytes(bytes, headerParameter(contentType, 'charset'));
+    if (mediaType === 'text/plain') {
+      content.plainText.push(text.trim());
+    } else {
+      content.htmlText.push(htmlToText(text));
+    }
+  }
+}
+
+// The main headers, the attachment names and the body of an .eml file. The plain text version of the body is
+// preferred over the HTML one, which most emails contain as well.
+export function extractEmailText(bytes: Uint8Array): string {
+  // The parts are split on the raw bytes, since each one can have its own charset
+  const message = parsePart(bytesToBinary(bytes));
+  const content: EmailContent = { plainText: [], htmlText: [], attachments: [] };
+  collectContent(message, content);
+
+  const lines = SHOWN_HEADERS
+    .filter(name => message.headers.has(name))
+    .map(name => `${name[0].toUpperCase()}${name.slice(1)}: ${decodeHeader(message.headers.get(name)!)}`);
+  if (content.attachments.length > 0) lines.push(`Attachments: ${content.attachments.join(', ')}`);
+  const body = (content.plainText.length > 0 ? content.plainText : content.htmlText).join('\n\n');
+  return `${lines.join('\n')}\n\n${body}`.trim();
+}
+
+// Random binary data decodes to all sorts of UTF-16 characters, so only the common European scripts count as text
+function isLikelyText(code: number): boolean {
+  return (code >= 0x20 && code < 0x7f)
+    || (code >= 0xa0 && code < 0x250) // Latin-1 and Latin Extended
+    || (code >= 0x370 && code < 0x500) // Greek and Cyrillic
+    || (code >= 0x2010 && code < 0x2030) // Dashes and typographic quotes
+    || code === 0x20ac; // €
+}
+
+// Outlook .msg files are OLE compound files with the subject, sender and body stored as UTF-16 strings. Instead of
+// parsing the container, the readable UTF-16 runs are collected, which is enough to tell what a message is about.
+export function extractOutlookMessageText(bytes: Uint8Array): string {
+  const MIN_RUN_LENGTH = 4;
+  const runs: string[] = [];
+  let current = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    const code = bytes[i] | (bytes[i + 1] << 8);
+    const isText = code === 0x0a || code === 0x0d || code === 0x09 || isLikelyText(code);
+    if (isText) {
+      current += String.fromCharCode(code);
+    } else {
+      if (current.trim().length >= MIN_RUN_LENGTH) runs.push(current.trim());
+      current = '';
+    }
+  }
+  if (current.trim().length >= MIN_RUN_LENGTH) runs.push(current.trim());
+  // Names of the container's streams, such as "__substg1.0_0037001F", are not part of the message
+  return [...new Set(runs.filter(run => !/^(__|Root Entry)/.test(run)))].join('\n');
+}
@@ -0,0 +1,42 @@
+export interface ExampleCandidate {
+  fileName: string;
+  fileType: string;
+  summary: string;
+  tags: string[];
+  createdAt: number;
+}
+
+export interface ExampleSubject {
+  name: string;
+  type: string;
+  text?: string; // Extracted text; images have none before they are analyzed
+}
+
+const MAX_SUBJECT_TEXT_LENGTH = 5000;
+
+function words(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length >= 3 && !/^\d+$/.test(word))
+  );
+}
+
+// Picks the examples that look most like the file: by shared words between the file's name and text and the example's
+// name, summary and tags, then by type, then by age. Unrelated examples still fill up the remaining slots, since they
+// show the user's naming conventions.
+export function selectRelevantExamples<T extends ExampleCandidate>(examples: T[], subject: ExampleSubject, limit: number): T[] {
+  const subjectWords = words(`${subject.name} ${(subject.text ?? '').slice(0, MAX_SUBJECT_TEXT_LENGTH)}`);
+  const scored = examples.map(example => {
+    const exampleWords = words(`${example.fileName} ${example.summary} ${example.tags.join(' ')}`);
+    const shared = [...exampleWords].filter(word => subjectWords.has(word)).length;
+    const overlap = shared === 0 ? 0 : shared / Math.sqrt(subjectWords.size * exampleWords.size);
+    const sameType = example.fileType === subject.type ? 0.1 : 0;
+    return { example, score: overlap + sameType };
+  });
+  return scored
+    .sort((a, b) => b.score - a.score || b.example.createdAt - a.example.createdAt)
+    .slice(0, limit)
+    .map(entry => entry.example);
+}
@@ -0,0 +1,63 @@
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD_POINTER = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+// EXIF dates look like "2023:07:14 18:03:27" and carry no time zone, so they are read as local time
+function parseExifDate(value: string): number | undefined {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+// Reads the tags of one IFD, returning ASCII values and offsets by tag number
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean): Map<number, string | number> {
+  const tags = new Map<number, string | number>();
+  const entriesStart = tiffStart + ifdOffset;
+  if (entriesStart + 2 > view.byteLength) return tags;
+  const count = view.getUint16(entriesStart, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = entriesStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const length = view.getUint32(entry + 4, littleEndian);
+    if (type === 2) { // ASCII
+      const valueStart = length > 4 ? tiffStart + view.getUint32(entry + 8, littleEndian) : entry + 8;
+      if (valueStart + length > view.byteLength) continue;
+      let value = '';
+      for (let j = 0; j < length - 1; j++) value += String.fromCharCode(view.getUint8(valueStart + j));
+      tags.set(tag, value);
+    } else if (type === 4) { // LONG
+      tags.set(tag, view.getUint32(entry + 8, littleEndian));
+    }
+  }
+  return tags;
+}
+
+// The date a JPEG photo was taken (DateTimeOriginal, falling back to DateTime), or undefined if it has none.
+export async function readExifDate(file: Blob): Promise<number | undefined> {
+  // The EXIF segment sits at the start of the file and is at most 64 KB
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return undefined;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const segmentLength = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      const littleEndian = view.getUint16(tiffStart) === 0x4949;
+      const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+      const exifPointer = ifd0.get(TAG_EXIF_IFD_POINTER);
+      const exifIfd = typeof exifPointer === 'number' ? readIfd(view, tiffStart, exifPointer, littleEndian) : new Map();
+      const value = exifIfd.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.get(TAG_DATE_TIME);
+      return typeof value === 'string' ? parseExifDate(value) : undefined;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Not a marker, or the image data starts
+    offset += 2 + segmentLength;
+  }
+  return undefined;
+}
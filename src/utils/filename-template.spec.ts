@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateContext, formatDate, renderFilenameTemplate } from './filename-template';
+
+const context: TemplateContext = {
+  originalName: 'scan 1.pdf',
+  size: 123 * 1024,
+  lastModified: new Date(2024, 2, 15, 9, 5, 7).getTime(),
+  folder: 'Finance/Invoices',
+  aiName: 'acme-invoice.pdf',
+  title: 'Invoice January',
+  summary: 'An invoice from ACME for office supplies.',
+  tags: ['invoice', 'acme', '2024'],
+  documentDate: '2024-01-05',
+  vendor: 'ACME',
+  totalAmount: '120.50',
+  currency: 'EUR',
+  documentNumber: 'R-4711',
+};
+
+describe('formatDate', () => {
+  it('fills in the date and time parts', () => {
+    expect(formatDate(context.lastModified, 'yyyy-MM-dd_HHmmss')).toBe('2024-03-15_090507');
+    expect(formatDate(context.lastModified, 'dd.MM.yy')).toBe('15.03.24');
+  });
+});
+
+describe('renderFilenameTemplate', () => {
+  it('combines AI fields with file metadata', () => {
+    expect(renderFilenameTemplate('{date:yyyy-MM-dd}_{folder}_{vendor}_{originalName}.{ext}', context))
+      .toBe('2024-01-05_Finance-Invoices_ACME_scan 1.pdf');
+    expect(renderFilenameTemplate('{aiName} {documentNumber} {total} {currency}', context)).toBe('acme-invoice R-4711 120.50 EUR.pdf');
+    expect(renderFilenameTemplate('{tag:2}_{tags}_{summary:3}_{size}', context)).toBe('acme_invoice-acme-2024_An-invoice-from_123KB.pdf');
+    expect(renderFilenameTemplate('{modified:yyyyMMdd}-{name}', context)).toBe('20240315-scan 1.pdf');
+  });
+
+  it('uses the document date, else the photo date, else the last modified date', () => {
+    const photo = { ...context, documentDate: '', exifDate: new Date(2023, 6, 1).getTime() };
+    expect(renderFilenameTemplate('{date}', photo)).toBe('2023-07-01.pdf');
+    expect(renderFilenameTemplate('{date}', { ...photo, exifDate: undefined })).toBe('2024-03-15.pdf');
+    expect(renderFilenameTemplate('{exifDate}_{originalName}', { ...photo, exifDate: undefined })).toBe('scan 1.pdf');
+  });
+
+  it('collapses the separators around missing fields', () => {
+    const withoutVendor = { ...context, vendor: undefined, title: '  ' };
+    expect(renderFilenameTemplate('{date}_{vendor}_{originalName}', withoutVendor)).toBe('2024-01-05_scan 1.pdf');
+    expect(renderFilenameTemplate('{date}_{vendor}-{title}_{originalName}', withoutVendor)).toBe('2024-01-05_scan 1.pdf');
+    expect(renderFilenameTemplate('{vendor}_{originalName}', withoutVendor)).toBe('scan 1.pdf');
+    expect(renderFilenameTemplate('{originalName} - {vendor}.{ext}', withoutVendor)).toBe('scan 1.pdf');
+  });
+
+  it('keeps the original name when nothing is left', () => {
+    const empty = { ...context, vendor: undefined, title: undefined };
+    expect(renderFilenameTemplate('{vendor}_{title}', empty)).toBe('scan 1.pdf');
+    expect(renderFilenameTemplate('{vendor}.{ext}', empty)).toBe('scan 1.pdf');
+    expect(renderFilenameTemplate('', empty)).toBe('scan 1.pdf');
+  });
+
+  it('pads counters and leaves them out when there is none', () => {
+    expect(renderFilenameTemplate('{folder}-{counter:3}', { ...context, counter: 7 })).toBe('Finance-Invoices-007.pdf');
+    expect(renderFilenameTemplate('{folder}-{counter}', { ...context, counter: 12 })).toBe('Finance-Invoices-12.pdf');
+    expect(renderFilenameTemplate('{folder}-{counter:3}', context)).toBe('Finance-Invoices.pdf');
+  });
+
+  it('always keeps the original extension', () => {
+    expect(renderFilenameTemplate('{title}', context)).toBe('Invoice January.pdf');
+    expect(renderFilenameTemplate('{title}.PDF', context)).toBe('Invoice January.PDF');
+    expect(renderFilenameTemplate('{title}.txt', context)).toBe('Invoice January.txt.pdf');
+    expect(renderFilenameTemplate('{title}', { ...context, originalName: 'README' })).toBe('Invoice January');
+  });
+
+  it('leaves unknown tokens in place so typos show up in the preview', () => {
+    expect(renderFilenameTemplate('{vendorr}_{originalName}', context)).toBe('{vendorr}_scan 1.pdf');
+  });
+
+  it('removes characters that are not allowed in file names', () => {
+    const title = { ...context, title: 'Q1: "A/B" <draft>?' };
+    expect(renderFilenameTemplate('{title}', title)).toBe('Q1 AB draft.pdf');
+  });
+});
@@ -0,0 +1,150 @@
+import { sanitizeFilename } from './sanitize';
+
+// Everything a template can refer to. Fields the AI did not provide are simply left empty.
+export interface TemplateContext {
+  originalName: string; // Including the extension
+  size: number;
+  lastModified: number;
+  exifDate?: number; // When the photo was taken, see readExifDate()
+  folder?: string;
+  aiName?: string; // The filename the AI suggested
+  title?: string;
+  summary?: string;
+  tags?: string[];
+  documentDate?: string; // yyyy-mm-dd, the date the document itself refers to
+  vendor?: string;
+  totalAmount?: string;
+  currency?: string;
+  documentNumber?: string;
+  counter?: number; // 1-based position among the files going to the same folder
+}
+
+export interface TemplateToken {
+  token: string;
+  description: string;
+}
+
+// Shown as help next to template inputs
+export const FILENAME_TEMPLATE_TOKENS: TemplateToken[] = [
+  { token: '{originalName}', description: 'Original name without extension' },
+  { token: '{ext}', description: 'Original extension' },
+  { token: '{aiName}', description: 'Name suggested by the AI, without extension' },
+  { token: '{title}', description: 'Short title of the content' },
+  { token: '{folder}', description: 'Destination folder, "/" replaced by "-"' },
+  { token: '{vendor}', description: 'Company or person the document is from' },
+  { token: '{documentNumber}', description: 'Invoice or receipt number' },
+  { token: '{total}', description: 'Total amount, e.g. 1234.50' },
+  { token: '{currency}', description: 'Currency code, e.g. EUR' },
+  { token: '{tag:1}', description: 'First tag ({tags} for all)' },
+  { token: '{summary:3}', description: 'First 3 words of the summary' },
+  { token: '{date:yyyy-MM-dd}', description: 'Document date, else photo date, else last modified' },
+  { token: '{exifDate:yyyy-MM-dd}', description: 'Date the photo was taken' },
+  { token: '{modified:yyyy-MM-dd}', description: 'Last modified date' },
+  { token: '{size}', description: 'File size, e.g. 120KB' },
+  { token: '{counter:3}', description: 'Number within the folder, padded to 3 digits' },
+];
+
+const DEFAULT_DATE_FORMAT = 'yyyy-MM-dd';
+
+function splitExtension(fileName: string): { base: string; extension: string } {
+  const dotIndex = fileName.lastIndexOf('.');
+  if (dotIndex <= 0) return { base: fileName, extension: '' };
+  return { base: fileName.slice(0, dotIndex), extension: fileName.slice(dotIndex + 1) };
+}
+
+// Supports yyyy, yy, MM, dd, HH, mm and ss, e.g. "yyyy-MM-dd_HHmm"
+export function formatDate(timestamp: number, format: string): string {
+  const date = new Date(timestamp);
+  const parts: Record<string, string> = {
+    yyyy: String(date.getFullYear()),
+    yy: String(date.getFullYear()).slice(-2),
+    MM: String(date.getMonth() + 1).padStart(2, '0'),
+    dd: String(date.getDate()).padStart(2, '0'),
+    HH: String(date.getHours()).padStart(2, '0'),
+    mm: String(date.getMinutes()).padStart(2, '0'),
+    ss: String(date.getSeconds()).padStart(2, '0'),
+  };
+  return format.replace(/yyyy|yy|MM|dd|HH|mm|ss/g, part => parts[part]);
+}
+
+function parseDocumentDate(value: string | undefined): number | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value ?? '');
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function tokenValue(name: string, argument: string | undefined, context: TemplateContext): string | undefined {
+  const dateOrEmpty = (timestamp: number | undefined) =>
+    timestamp === undefined ? '' : formatDate(timestamp, argument || DEFAULT_DATE_FORMAT);
+
+  switch (name) {
+    case 'originalName':
+    case 'name':
+      return splitExtension(context.originalName).base;
+    case 'ext':
+      return splitExtension(context.originalName).extension;
+    case 'aiName':
+      return context.aiName ? splitExtension(context.aiName).base : '';
+    case 'title':
+      return context.title ?? '';
+    case 'folder':
+      return (context.folder ?? '').replace(/\//g, '-');
+    case 'vendor':
+      return context.vendor ?? '';
+    case 'documentNumber':
+      return context.documentNumber ?? '';
+    case 'total':
+      return context.totalAmount ?? '';
+    case 'currency':
+      return context.currency ?? '';
+    case 'tag':
+      return context.tags?.[Math.max(1, parseInt(argument ?? '1', 10) || 1) - 1] ?? '';
+    case 'tags':
+      return (context.tags ?? []).join('-');
+    case 'summary': {
+      const words = (context.summary ?? '').split(/\s+/).filter(w => w);
+      return words.slice(0, parseInt(argument ?? '', 10) || words.length).join('-');
+    }
+    case 'date':
+      return dateOrEmpty(parseDocumentDate(context.documentDate) ?? context.exifDate ?? context.lastModified);
+    case 'exifDate':
+      return dateOrEmpty(context.exifDate);
+    case 'modified':
+      return dateOrEmpty(context.lastModified);
+    case 'size':
+      return formatSize(context.size);
+    case 'counter':
+      return context.counter === undefined ? '' : String(context.counter).padStart(parseInt(argument ?? '', 10) || 1, '0');
+    default:
+      return undefined;
+  }
+}
+
+// Fills in a template such as "{date:yyyy-MM-dd}_{folder}_{vendor}_{originalName}.{ext}".
+// Unknown tokens are left as they are, so that typos show up in the preview. The original extension is always kept.
+export function renderFilenameTemplate(template: string, context: TemplateContext): string {
+  const EMPTY = '\u0000';
+  const rendered = template
+    .replace(/\{(\w+)(?::([^}]*))?\}/g, (token, name: string, argument: string | undefined) => {
+      const value = tokenValue(name, argument, context);
+      return value === undefined ? token : value.trim() || EMPTY;
+    })
+    // An empty value would leave doubled or dangling separators behind, e.g. "2024-01-05__invoice"
+    .replace(/([-_ ]*)\u0000(?:[-_ ]*\u0000)*([-_ ]*)/g, (_, before: string, after: string) => before || after)
+    .replace(/^[-_ ]+|[-_ ]+$/g, '')
+    .replace(/[-_ ]+(?=\.[^.]*$)/, '');
+
+  const { extension } = splitExtension(context.originalName);
+  if (!rendered || rendered.toLowerCase() === `.${extension.toLowerCase()}`) return context.originalName;
+  const withExtension = extension && !rendered.toLowerCase().endsWith(`.${extension.toLowerCase()}`)
+    ? `${rendered}.${extension}`
+    : rendered;
+  return sanitizeFilename(withExtension);
+}
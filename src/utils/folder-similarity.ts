@@ -0,0 +1,38 @@
+function bigrams(text: string): string[] {
+  const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  const result: string[] = [];
+  for (let i = 0; i < normalized.length - 1; i++) result.push(normalized.slice(i, i + 2));
+  return result;
+}
+
+// Dice coefficient over character pairs: 1 for equal names, 0 for names without a pair in common
+export function nameSimilarity(a: string, b: string): number {
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (pairsA.length === 0 || pairsB.length === 0) return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  const remaining = [...pairsB];
+  let shared = 0;
+  for (const pair of pairsA) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
+
+function lastSegment(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+// The existing folder whose name looks most like the given one. Both the full paths and the last segments are compared,
+// so that "Bills/Invoice" is close to "Finance/Invoices".
+export function closestFolder(path: string, folders: string[]): { folder: string; similarity: number } | null {
+  let best: { folder: string; similarity: number } | null = null;
+  for (const folder of folders) {
+    const similarity = Math.max(nameSimilarity(path, folder), nameSimilarity(lastSegment(path), lastSegment(folder)));
+    if (!best || similarity > best.similarity) best = { folder, similarity };
+  }
+  return best;
+}
@@ -0,0 +1,151 @@
+import { sanitizeFilename, sanitizeFolderPath } from './sanitize';
+
+// One folder of the destination structure. The path of a folder is the names from the root down, joined by "/".
+export interface FolderNode {
+  id: string;
+  name: string;
+  description: string; // What belongs here, in the user's words; passed on to the AI
+  keywords: string; // Comma-separated examples, e.g. "invoice, bill, amount due"
+  children: FolderNode[];
+}
+
+export interface FolderTreeEntry {
+  path: string;
+  node: FolderNode;
+}
+
+// Shared taxonomies are exported in this shape, without IDs
+interface ExportedFolder {
+  name: string;
+  description?: string;
+  keywords?: string[];
+  children?: ExportedFolder[];
+}
+
+const EXPORT_FORMAT_VERSION = 1;
+
+export function createFolderNode(id: string, name: string): FolderNode {
+  return { id, name: sanitizeFilename(name), description: '', keywords: '', children: [] };
+}
+
+// Every folder with its path, parents before their children
+export function flattenFolderTree(nodes: FolderNode[], parentPath = ''): FolderTreeEntry[] {
+  return nodes.flatMap(node => {
+    const path = parentPath ? `${parentPath}/${node.name}` : node.name;
+    return [{ path, node }, ...flattenFolderTree(node.children, path)];
+  });
+}
+
+export function folderPathsById(nodes: FolderNode[]): Map<string, string> {
+  return new Map(flattenFolderTree(nodes).map(entry => [entry.node.id, entry.path]));
+}
+
+// Adds a path such as "Finance/Invoices/2024", creating the folders that don't exist yet. Names are compared case-insensitively.
+export function addFolderPath(nodes: FolderNode[], path: string, createId: () => string): FolderNode[] {
+  const [name, ...rest] = sanitizeFolderPath(path).split('/').filter(part => part.trim());
+  if (!name) return nodes;
+  const existing = nodes.find(node => node.name.toLowerCase() === name.trim().toLowerCase());
+  if (existing) {
+    if (rest.length === 0) return nodes;
+    return nodes.map(node =>
+      node === existing ? { ...node, children: addFolderPath(node.children, rest.join('/'), createId) } : node
+    );
+  }
+  const created = createFolderNode(createId(), name);
+  return [...nodes, { ...created, children: addFolderPath([], rest.join('/'), createId) }];
+}
+
+// Turns a list of paths, as typed by the user or found by scanning a folder, into a tree
+export function buildFolderTree(paths: string[], createId: () => string): FolderNode[] {
+  return paths.reduce((tree, path) => addFolderPath(tree, path, createId), [] as FolderNode[]);
+}
+
+export function updateFolderNode(nodes: FolderNode[], id: string, changes: Partial<Omit<FolderNode, 'id' | 'children'>>): FolderNode[] {
+  return nodes.map(node => {
+    if (node.id === id) return { ...node, ...changes };
+    return { ...node, children: updateFolderNode(node.children, id, changes) };
+  });
+}
+
+export function addChildFolder(nodes: FolderNode[], parentId: string | null, child: FolderNode): FolderNode[] {
+  if (parentId === null) return [...nodes, child];
+  return nodes.map(node => {
+    if (node.id === parentId) return { ...node, children: [...node.children, child] };
+    return { ...node, children: addChildFolder(node.children, parentId, child) };
+  });
+}
+
+// Removes the folder together with its subfolders
+export function removeFolderNode(nodes: FolderNode[], id: string): FolderNode[] {
+  return nodes
+    .filter(node => node.id !== id)
+    .map(node => ({ ...node, children: removeFolderNode(node.children, id) }));
+}
+
+function findFolderNode(nodes: FolderNode[], id: string): FolderNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findFolderNode(node.children, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Moves a folder into another one (or to the top level for null), at the given position among its new siblings.
+// Moving a folder into itself or one of its own subfolders is ignored.
+export function moveFolderNode(nodes: FolderNode[], id: string, newParentId: string | null, index?: number): FolderNode[] {
+  const node = findFolderNode(nodes, id);
+  if (!node) return nodes;
+  if (newParentId !== null && (newParentId === id || findFolderNode(node.children, newParentId))) return nodes;
+
+  const without = removeFolderNode(nodes, id);
+  const insert = (siblings: FolderNode[]) => {
+    const position = index === undefined ? siblings.length : Math.max(0, Math.min(index, siblings.length));
+    return [...siblings.slice(0, position), node, ...siblings.slice(position)];
+  };
+  if (newParentId === null) return insert(without);
+
+  const insertInto = (siblings: FolderNode[]): FolderNode[] =>
+    siblings.map(sibling =>
+      sibling.id === newParentId
+        ? { ...sibling, children: insert(sibling.children) }
+        : { ...sibling, children: insertInto(sibling.children) }
+    );
+  return insertInto(without);
+}
+
+export function exportFolderTree(nodes: FolderNode[]): string {
+  const toExported = (node: FolderNode): ExportedFolder => ({
+    name: node.name,
+    description: node.description || undefined,
+    keywords: node.keywords.trim() ? node.keywords.split(',').map(k => k.trim()).filter(k => k) : undefined,
+    children: node.children.length > 0 ? node.children.map(toExported) : undefined,
+  });
+  return JSON.stringify({ version: EXPORT_FORMAT_VERSION, folders: nodes.map(toExported) }, null, 2);
+}
+
+// Throws an Error with a message for the user if the JSON is not an exported folder structure
+export function importFolderTree(json: string, createId: () => string): FolderNode[] {
+  let data;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(data?.folders)) {
+    throw new Error('The file does not contain a folder structure.');
+  }
+
+  const toNode = (item: ExportedFolder): FolderNode => {
+    if (typeof item?.name !== 'string' || !sanitizeFilename(item.name)) {
+      throw new Error('Every folder needs a name.');
+    }
+    return {
+      ...createFolderNode(createId(), item.name),
+      description: typeof item.description === 'string' ? item.description : '',
+      keywords: Array.isArray(item.keywords) ? item.keywords.map(String).join(', ') : '',
+      children: Array.isArray(item.children) ? item.children.map(toNode) : [],
+    };
+  };
+  return data.folders.map(toNode);
+}
@@ -0,0 +1,15 @@
+// The readable text of an HTML page or email, with the title first. Scripts and styles are dropped.
+export function htmlToText(html: string): string {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  document.querySelectorAll('script, style, noscript, template').forEach(element => element.remove());
+  // Block elements become line breaks, which textContent would otherwise drop
+  document.querySelectorAll('br, p, div, li, tr, h1, h2, h3, h4, h5, h6').forEach(element => element.append('\n'));
+  const title = document.title.trim();
+  const body = (document.body?.textContent ?? '')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return title && !body.startsWith(title) ? `${title}\n\n${body}` : body;
+}
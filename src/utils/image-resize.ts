@@ -0,0 +1,50 @@
+export interface ScaledImage {
+  base64Data: string; // JPEG
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+const JPEG_QUALITY = 0.85;
+
+export function canvasToJpegBase64(canvas: HTMLCanvasElement): string {
+  // Transparent areas would turn black in a JPEG
+  const flattened = document.createElement('canvas');
+  flattened.width = canvas.width;
+  flattened.height = canvas.height;
+  const context = flattened.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available.');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(canvas, 0, 0);
+  return flattened.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1];
+}
+
+export async function imageDimensions(image: Blob): Promise<{ width: number; height: number }> {
+  const bitmap = await createImageBitmap(image);
+  const dimensions = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return dimensions;
+}
+
+// Scales the image down so that its longer side is at most maxDimension pixels; smaller images keep their size.
+export async function downscaleImage(image: Blob, maxDimension: number): Promise<ScaledImage> {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available.');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const result = {
+    base64Data: canvasToJpegBase64(canvas),
+    width: canvas.width,
+    height: canvas.height,
+    originalWidth: bitmap.width,
+    originalHeight: bitmap.height,
+  };
+  bitmap.close();
+  return result;
+}
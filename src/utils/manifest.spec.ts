@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ManifestEntry, createManifest, manifestToCsv, manifestToJson, parseManifest } from './manifest';
+
+const entries: ManifestEntry[] = [
+  {
+    originalPath: 'ToSort/scan 01.pdf',
+    folder: 'Finance/Invoices',
+    fileName: 'invoice-2024-01, ACME.pdf',
+    tags: ['invoice', 'acme'],
+    summary: 'An invoice from "ACME"\nfor January.',
+    status: 'done',
+    error: '',
+  },
+  {
+    originalPath: 'ToSort/notes.txt',
+    folder: '',
+    fileName: 'notes.txt',
+    tags: [],
+    summary: '',
+    status: 'error',
+    error: 'The file could not be read.',
+  },
+];
+
+describe('parseManifest', () => {
+  it('reads back a CSV manifest', () => {
+    const csv = manifestToCsv(createManifest(entries, 'ToSort'));
+    expect(parseManifest(csv, 'manifest.csv')).toEqual(entries);
+  });
+
+  it('reads back a JSON manifest with all details', () => {
+    const detailed = [{ ...entries[0], confidence: 0.8, vendor: 'ACME', totalAmount: '12.50' }, entries[1]];
+    const json = manifestToJson(createManifest(detailed, 'ToSort'));
+    expect(parseManifest(json, 'manifest.json')).toEqual(detailed);
+  });
+
+  it('tells the formats apart by their content when the name does not', () => {
+    const json = manifestToJson(createManifest(entries, null));
+    expect(parseManifest(json, 'manifest.txt')).toEqual(entries);
+    expect(() => parseManifest('{"files": 1}', 'manifest.txt')).toThrow('does not contain a list of files');
+  });
+
+  it('reads a CSV that starts with a brace as CSV', () => {
+    const csv = '{Notes},Original path,Folder,File name,Status\r\nchecked,ToSort/a.pdf,Notes,a.pdf,done\r\n';
+    const [entry] = parseManifest(csv, 'export.txt');
+    expect(entry).toMatchObject({ originalPath: 'ToSort/a.pdf', folder: 'Notes', fileName: 'a.pdf', status: 'done' });
+  });
+
+  it('keeps folders and file names inside the destination', () => {
+    const csv = 'Original path,Folder,File name,Status\r\nToSort/a.pdf,../../Windows/System32,../evil.dll,done\r\n';
+    const [fromCsv] = parseManifest(csv, 'manifest.csv');
+    expect(fromCsv.folder).toBe('Windows/System32');
+    expect(fromCsv.fileName).toBe('..evil.dll');
+
+    const json = JSON.stringify({ files: [{ originalPath: 'ToSort/a.pdf', folder: 'C:\\..\\Temp', fileName: '..' }] });
+    const [fromJson] = parseManifest(json, 'manifest.json');
+    expect(fromJson.folder).toBe('C/Temp');
+    expect(fromJson.fileName).toBe('');
+  });
+});
@@ -0,0 +1,118 @@
+import { parseCsv, toCsv } from './csv';
+import { sanitizeFilename, sanitizeFolderPath } from './sanitize';
+
+// One file of an exported review. The CSV has the main columns; the JSON also keeps the AI's details.
+export interface ManifestEntry {
+  originalPath: string;
+  folder: string; // Where the file goes, '' if it is not moved
+  fileName: string; // The name it gets
+  tags: string[];
+  summary: string;
+  status: 'pending' | 'done' | 'error';
+  error: string;
+  suggestedFolder?: string;
+  suggestedName?: string;
+  confidence?: number;
+  title?: string;
+  documentDate?: string;
+  vendor?: string;
+  totalAmount?: string;
+  currency?: string;
+  documentNumber?: string;
+}
+
+export interface Manifest {
+  version: number;
+  exportedAt: string;
+  source: string | null; // Name of the source folder, if one was selected
+  files: ManifestEntry[];
+}
+
+const MANIFEST_VERSION = 1;
+const CSV_HEADER = ['Original path', 'Folder', 'File name', 'Tags', 'Summary', 'Status', 'Error'];
+const STATUSES: ManifestEntry['status'][] = ['pending', 'done', 'error'];
+
+export function createManifest(files: ManifestEntry[], source: string | null): Manifest {
+  return { version: MANIFEST_VERSION, exportedAt: new Date().toISOString(), source, files };
+}
+
+export function manifestToJson(manifest: Manifest): string {
+  return JSON.stringify(manifest, null, 2);
+}
+
+// Tags are joined with "; " so that the column stays readable in a spreadsheet
+export function manifestToCsv(manifest: Manifest): string {
+  const rows = manifest.files.map(entry => [
+    entry.originalPath,
+    entry.folder,
+    entry.fileName,
+    entry.tags.join('; '),
+    entry.summary,
+    entry.status,
+    entry.error,
+  ]);
+  return toCsv([CSV_HEADER, ...rows]);
+}
+
+function toStatus(value: unknown): ManifestEntry['status'] {
+  return STATUSES.includes(value as ManifestEntry['status']) ? (value as ManifestEntry['status']) : 'pending';
+}
+
+function parseJsonManifest(text: string): ManifestEntry[] {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(data?.files)) throw new Error('The file does not contain a list of files.');
+  return data.files
+    .filter((entry: Partial<ManifestEntry>) => typeof entry?.originalPath === 'string' && entry.originalPath)
+    .map((entry: Partial<ManifestEntry>) => ({
+      ...entry,
+      folder: sanitizeFolderPath(String(entry.folder ?? '')),
+      fileName: sanitizeFilename(String(entry.fileName ?? '')),
+      tags: Array.isArray(entry.tags) ? entry.tags.map(String) : [],
+      summary: String(entry.summary ?? ''),
+      status: toStatus(entry.status),
+      error: String(entry.error ?? ''),
+    }));
+}
+
+function parseCsvManifest(text: string): ManifestEntry[] {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  const column = (row: string[], name: string) => row[columns.indexOf(name.toLowerCase())] ?? '';
+  if (!columns.includes('original path')) throw new Error('The CSV file has no "Original path" column.');
+
+  return rows
+    .filter(row => column(row, 'Original path'))
+    .map(row => ({
+      originalPath: column(row, 'Original path'),
+      folder: sanitizeFolderPath(column(row, 'Folder')),
+      fileName: sanitizeFilename(column(row, 'File name')),
+      tags: column(row, 'Tags').split(';').map(tag => tag.trim()).filter(tag => tag),
+      summary: column(row, 'Summary'),
+      status: toStatus(column(row, 'Status')),
+      error: column(row, 'Error'),
+    }));
+}
+
+// Files that were renamed, e.g. "manifest (1).txt", are read as JSON only if they hold a JSON object
+function isJsonManifest(text: string, fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.json')) return true;
+  if (name.endsWith('.csv')) return false;
+  try {
+    const data = JSON.parse(text);
+    return typeof data === 'object' && data !== null && !Array.isArray(data);
+  } catch {
+    return false;
+  }
+}
+
+// Accepts both formats written above. Folders and names are sanitized like the AI's, since they drive the scripts.
+// Throws an Error with a message for the user if the file can't be read.
+export function parseManifest(text: string, fileName: string): ManifestEntry[] {
+  return isJsonManifest(text, fileName) ? parseJsonManifest(text) : parseCsvManifest(text);
+}
@@ -0,0 +1,116 @@
+import { ZipEntry, readZipEntries, readZipText } from './zip-reader';
+
+// Spreadsheets are cut off after this many rows per sheet; the first rows are enough to tell what a sheet is about
+const MAX_ROWS_PER_SHEET = 500;
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+// Elements by local name, whatever prefix the file uses for their namespace
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+// Entries such as "ppt/slides/slide10.xml" in numeric rather than alphabetical order
+function numberedEntries(entries: ZipEntry[], pattern: RegExp): ZipEntry[] {
+  const numberOf = (entry: ZipEntry) => Number(pattern.exec(entry.path)?.[1]);
+  return entries.filter(e => pattern.test(e.path)).sort((a, b) => numberOf(a) - numberOf(b));
+}
+
+// Turns a relationship target such as "worksheets/sheet1.xml" or "/xl/worksheets/sheet1.xml" into an archive path.
+function resolveTarget(baseFolder: string, target: string): string {
+  return target.startsWith('/') ? target.slice(1) : `${baseFolder}/${target}`;
+}
+
+// --- Excel (.xlsx) ---
+
+async function readSharedStrings(entries: ZipEntry[]): Promise<string[]> {
+  const xml = await readZipText(entries, 'xl/sharedStrings.xml');
+  if (!xml) return [];
+  // Rich text is split into runs, each with its own <t>
+  return elements(parseXml(xml), 'si').map(item => elements(item, 't').map(t => t.textContent ?? '').join(''));
+}
+
+function cellValue(cell: Element, sharedStrings: string[]): string {
+  const value = elements(cell, 'v')[0]?.textContent ?? '';
+  switch (cell.getAttribute('t')) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr':
+      return elements(cell, 't').map(t => t.textContent ?? '').join('');
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    default:
+      return value;
+  }
+}
+
+// One block per sheet with tab-separated cells, so that the model sees the table structure.
+export async function extractSpreadsheetText(file: Blob): Promise<string> {
+  const entries = await readZipEntries(file);
+  const sharedStrings = await readSharedStrings(entries);
+  const workbook = parseXml((await readZipText(entries, 'xl/workbook.xml')) ?? '');
+  const relationships = parseXml((await readZipText(entries, 'xl/_rels/workbook.xml.rels')) ?? '');
+  const targets = new Map(elements(relationships, 'Relationship').map(r => [r.getAttribute('Id'), r.getAttribute('Target') ?? '']));
+
+  const blocks: string[] = [];
+  for (const sheet of elements(workbook, 'sheet')) {
+    // The relationship ID attribute is in the officeDocument relationships namespace, usually with the "r" prefix
+    const relationshipId = Array.from(sheet.attributes).find(a => a.localName === 'id')?.value;
+    const target = relationshipId ? targets.get(relationshipId) : undefined;
+    const xml = target ? await readZipText(entries, resolveTarget('xl', target)) : null;
+    if (!xml) continue;
+
+    const rows = elements(parseXml(xml), 'row')
+      .map(row => elements(row, 'c').map(cell => cellValue(cell, sharedStrings)).join('\t').trimEnd())
+      .filter(row => row);
+    const shownRows = rows.slice(0, MAX_ROWS_PER_SHEET);
+    const omitted = rows.length - shownRows.length;
+    blocks.push(
+      `Sheet "${sheet.getAttribute('name') ?? ''}":\n${shownRows.join('\n')}${omitted > 0 ? `\n(${omitted} more rows)` : ''}`
+    );
+  }
+  return blocks.join('\n\n');
+}
+
+// --- PowerPoint (.pptx) ---
+
+export async function extractPresentationText(file: Blob): Promise<string> {
+  const entries = await readZipEntries(file);
+  const blocks: string[] = [];
+  for (const [index, entry] of numberedEntries(entries, /^ppt\/slides\/slide(\d+)\.xml$/).entries()) {
+    const slide = parseXml(new TextDecoder().decode(await entry.read()));
+    const paragraphs = elements(slide, 'p')
+      .map(p => elements(p, 't').map(t => t.textContent ?? '').join(''))
+      .filter(text => text.trim());
+    if (paragraphs.length > 0) blocks.push(`Slide ${index + 1}:\n${paragraphs.join('\n')}`);
+  }
+  return blocks.join('\n\n');
+}
+
+// --- OpenDocument (.odt, .ods, .odp) ---
+
+const ODF_TEXT_NAMESPACE = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+
+// Headings and paragraphs in document order; table cells and text boxes contain paragraphs as well
+function collectParagraphs(element: Element, paragraphs: string[]): void {
+  for (const child of Array.from(element.children)) {
+    if (child.namespaceURI === ODF_TEXT_NAMESPACE && (child.localName === 'p' || child.localName === 'h')) {
+      const text = child.textContent?.trim();
+      if (text) paragraphs.push(text);
+    } else {
+      collectParagraphs(child, paragraphs);
+    }
+  }
+}
+
+export async function extractOpenDocumentText(file: Blob): Promise<string> {
+  const entries = await readZipEntries(file);
+  const xml = await readZipText(entries, 'content.xml');
+  if (!xml) throw new Error('The file has no content.xml.');
+  const body = elements(parseXml(xml), 'body')[0];
+  const paragraphs: string[] = [];
+  if (body) collectParagraphs(body, paragraphs);
+  return paragraphs.join('\n');
+}
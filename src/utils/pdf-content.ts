@@ -0,0 +1,49 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// Copied from pdfjs-dist into the build (see angular.json), so that PDFs are read without contacting a CDN
+const PDF_WORKER_PATH = 'pdfjs/pdf.worker.min.mjs';
+
+export async function openPdf(file: Blob): Promise<PDFDocumentProxy> {
+  pdfjsLib.GlobalWorkerOptions.workerSrc ||= new URL(PDF_WORKER_PATH, document.baseURI).href;
+  return pdfjsLib.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+}
+
+// The text layer of pages 1 to pageCount, one block per page. Scanned pages have none and give an empty string.
+export async function readPdfText(pdf: PDFDocumentProxy, pageCount: number): Promise<string[]> {
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= Math.min(pageCount, pdf.numPages); pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const text = content.items
+      .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+      .join('')
+      .trim();
+    pages.push(text);
+    page.cleanup();
+  }
+  return pages;
+}
+
+// Page numbers spread evenly over the document, always including the first page, which says the most about it.
+export function samplePageNumbers(pageCount: number, sampleCount: number): number[] {
+  if (sampleCount >= pageCount) return Array.from({ length: pageCount }, (_, i) => i + 1);
+  if (sampleCount <= 1) return [1];
+  const numbers = Array.from({ length: sampleCount }, (_, i) => 1 + Math.round((i * (pageCount - 1)) / (sampleCount - 1)));
+  return [...new Set(numbers)];
+}
+
+// Renders a page so that its longer side is at most maxDimension pixels.
+export async function renderPdfPage(pdf: PDFDocumentProxy, pageNumber: number, maxDimension: number): Promise<HTMLCanvasElement> {
+  const page = await pdf.getPage(pageNumber);
+  const unscaled = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: maxDimension / Math.max(unscaled.width, unscaled.height) });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context is not available.');
+  await page.render({ canvasContext: context, viewport }).promise;
+  page.cleanup();
+  return canvas;
+}
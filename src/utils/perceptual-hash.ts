@@ -0,0 +1,41 @@
+const HASH_WIDTH = 9; // One more column than bits per row, since each bit compares two neighbouring pixels
+const HASH_HEIGHT = 8;
+
+// A 64-bit "difference hash" of an image as 16 hex digits. Resizing and recompressing a photo barely changes it,
+// so the same picture saved at different resolutions ends up with (nearly) the same hash.
+export async function differenceHash(image: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D context is not available.');
+  context.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const luminance = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let row = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      row = (row << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+    }
+    hash += row.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+// Number of differing bits between two hashes of the same length
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; bits; bits &= bits - 1) distance++;
+  }
+  return distance;
+}
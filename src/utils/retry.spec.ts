@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { withRetry } from './retry';
+
+class RateLimitError extends Error {
+  constructor(readonly retryAfterMs: number) {
+    super('Too many requests');
+  }
+}
+
+function options(onRetry = vi.fn()) {
+  return {
+    maxAttempts: 3,
+    baseDelayMs: 10,
+    maxDelayMs: 1000,
+    shouldRetry: () => true,
+    retryAfterMs: (error: unknown) => (error as RateLimitError).retryAfterMs,
+    onRetry,
+  };
+}
+
+describe('withRetry', () => {
+  it('waits at least as long as the server asked, but no longer than maxDelayMs', async () => {
+    vi.useFakeTimers();
+    try {
+      const onRetry = vi.fn();
+      const operation = vi.fn()
+        .mockRejectedValueOnce(new RateLimitError(200))
+        .mockRejectedValueOnce(new RateLimitError(1000))
+        .mockResolvedValue('done');
+      const result = withRetry(operation, options(onRetry));
+      await vi.runAllTimersAsync();
+
+      await expect(result).resolves.toBe('done');
+      const [first, second] = onRetry.mock.calls.map(([, delayMs]) => delayMs);
+      expect(first).toBeGreaterThanOrEqual(200);
+      expect(first).toBeLessThanOrEqual(1000);
+      expect(second).toBe(1000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('gives up right away when the server asks for a wait longer than maxDelayMs', async () => {
+    const error = new RateLimitError(60 * 60 * 1000);
+    const onRetry = vi.fn();
+    const operation = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry(operation, options(onRetry))).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+export interface RetryOptions {
+  maxAttempts: number; // Including the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  // A delay the failed call asked for (e.g. from a Retry-After header), used as the minimum wait. If it is longer than
+  // maxDelayMs, the error is thrown instead of waiting.
+  retryAfterMs?: (error: unknown) => number | undefined;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  signal?: AbortSignal; // Stops further attempts, including one that is waiting out its delay
+}
+
+// Exponential backoff with "full jitter", so that parallel requests that failed together don't retry together.
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      if (attempt >= options.maxAttempts || !options.shouldRetry(error)) throw error;
+
+      const jittered = backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      const requested = options.retryAfterMs?.(error);
+      // A server that asks for a longer wait than we are willing to spend won't accept a retry any sooner, so the
+      // error is passed on as it is; it stays retryable for later
+      if (requested !== undefined && requested > options.maxDelayMs) throw error;
+      // Honor the server's hint, plus some jitter on top of it
+      const waitMs = requested !== undefined ? Math.min(requested + jittered / 4, options.maxDelayMs) : jittered;
+
+      options.onRetry?.(attempt + 1, waitMs, error);
+      await delay(waitMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { FileRule, RuleSubject, createRule, findMatchingRule, ruleMatches, ruleValidationError } from './rules';
+
+const invoice: RuleSubject = {
+  name: 'Invoice-2024-01.pdf',
+  type: 'application/pdf',
+  size: 200 * 1024,
+  lastModified: new Date(2024, 0, 15, 12, 0).getTime(),
+  extractedText: 'Total due: 120.00 EUR',
+};
+
+function rule(conditions: Partial<FileRule>): FileRule {
+  return { ...createRule(conditions.id ?? 'rule'), folder: 'Finance', ...conditions };
+}
+
+describe('ruleValidationError', () => {
+  it('requires a folder and at least one condition', () => {
+    expect(ruleValidationError(rule({ folder: ' ', namePattern: 'x' }))).toBe('Choose the folder this rule assigns.');
+    expect(ruleValidationError(rule({ keywords: ' ' }))).toBe('Add at least one condition.');
+    expect(ruleValidationError(rule({ minSizeKb: 0 }))).toBeNull();
+  });
+
+  it('rejects invalid regular expressions', () => {
+    expect(ruleValidationError(rule({ namePattern: 'invoice(' }))).toBe('The name pattern is not a valid regular expression.');
+  });
+});
+
+describe('ruleMatches', () => {
+  it('matches the name pattern case-insensitively as a regular expression', () => {
+    expect(ruleMatches(rule({ namePattern: '^invoice-\\d{4}' }), invoice)).toBe(true);
+    expect(ruleMatches(rule({ namePattern: '^receipt' }), invoice)).toBe(false);
+  });
+
+  it('matches MIME types exactly or by their main type', () => {
+    expect(ruleMatches(rule({ mimeType: 'Application/PDF' }), invoice)).toBe(true);
+    expect(ruleMatches(rule({ mimeType: 'application/*' }), invoice)).toBe(true);
+    expect(ruleMatches(rule({ mimeType: 'image/*' }), invoice)).toBe(false);
+    expect(ruleMatches(rule({ mimeType: 'application/pd' }), invoice)).toBe(false);
+  });
+
+  it('matches sizes within the inclusive limits', () => {
+    expect(ruleMatches(rule({ minSizeKb: 200 }), invoice)).toBe(true);
+    expect(ruleMatches(rule({ minSizeKb: 201 }), invoice)).toBe(false);
+    expect(ruleMatches(rule({ maxSizeKb: 200 }), invoice)).toBe(true);
+    expect(ruleMatches(rule({ maxSizeKb: 199 }), invoice)).toBe(false);
+  });
+
+  it('matches modification dates including both whole days', () => {
+    expect(ruleMatches(rule({ modifiedAfter: '2024-01-15', modifiedBefore: '2024-01-15' }), invoice)).toBe(true);
+    expect(ruleMatches(rule({ modifiedAfter: '2024-01-16' }), invoice)).toBe(false);
+    expect(ruleMatches(rule({ modifiedBefore: '2024-01-14' }), invoice)).toBe(false);
+    const lateThatDay = { ...invoice, lastModified: new Date(2024, 0, 15, 23, 59, 59).getTime() };
+    expect(ruleMatches(rule({ modifiedBefore: '2024-01-15' }), lateThatDay)).toBe(true);
+  });
+
+  it('matches any of the keywords in the extracted text or the name', () => {
+    expect(ruleMatches(rule({ keywords: 'receipt, total due' }), invoice)).toBe(true);
+    expect(ruleMatches(rule({ keywords: 'INVOICE' }), { ...invoice, extractedText: undefined })).toBe(true);
+    expect(ruleMatches(rule({ keywords: 'receipt, , refund' }), invoice)).toBe(false);
+  });
+
+  it('requires every condition that is set', () => {
+    expect(ruleMatches(rule({ namePattern: 'invoice', mimeType: 'application/pdf', keywords: 'EUR' }), invoice)).toBe(true);
+    expect(ruleMatches(rule({ namePattern: 'invoice', mimeType: 'image/*' }), invoice)).toBe(false);
+  });
+
+  it('never matches disabled or invalid rules', () => {
+    expect(ruleMatches(rule({ namePattern: 'invoice', enabled: false }), invoice)).toBe(false);
+    expect(ruleMatches(rule({ namePattern: 'invoice', folder: '' }), invoice)).toBe(false);
+    expect(ruleMatches(rule({}), invoice)).toBe(false);
+  });
+});
+
+describe('findMatchingRule', () => {
+  it('returns the first rule that matches', () => {
+    const rules = [
+      rule({ id: 'photos', mimeType: 'image/*', folder: 'Photos' }),
+      rule({ id: 'disabled', namePattern: 'invoice', enabled: false }),
+      rule({ id: 'invoices', namePattern: 'invoice', folder: 'Finance/Invoices' }),
+      rule({ id: 'pdfs', mimeType: 'application/pdf', folder: 'Documents' }),
+    ];
+    expect(findMatchingRule(rules, invoice)?.id).toBe('invoices');
+    expect(findMatchingRule(rules.slice().reverse(), invoice)?.id).toBe('pdfs');
+    expect(findMatchingRule(rules, { ...invoice, name: 'scan.txt', type: 'text/plain', extractedText: '' })).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+// A rule classifies a file without asking the AI. Every condition that is set must match; empty conditions are ignored.
+export interface FileRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Conditions
+  namePattern: string; // Regular expression, matched case-insensitively against the file name
+  mimeType: string; // e.g. "application/pdf" or "image/*"
+  minSizeKb: number | null;
+  maxSizeKb: number | null;
+  modifiedAfter: string; // yyyy-mm-dd, inclusive
+  modifiedBefore: string; // yyyy-mm-dd, inclusive
+  keywords: string; // Comma-separated; matches if the extracted text (or the name) contains any of them
+  // Actions
+  folder: string;
+  tags: string; // Comma-separated
+  renameTemplate: string; // See renderFilenameTemplate(); empty keeps the original name
+}
+
+export interface RuleSubject {
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  extractedText?: string;
+}
+
+export function splitCommaList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item);
+}
+
+export function createRule(id: string): FileRule {
+  return {
+    id,
+    name: 'New rule',
+    enabled: true,
+    namePattern: '',
+    mimeType: '',
+    minSizeKb: null,
+    maxSizeKb: null,
+    modifiedAfter: '',
+    modifiedBefore: '',
+    keywords: '',
+    folder: '',
+    tags: '',
+    renameTemplate: '',
+  };
+}
+
+function hasCondition(rule: FileRule): boolean {
+  return !!(rule.namePattern || rule.mimeType || rule.minSizeKb !== null || rule.maxSizeKb !== null
+    || rule.modifiedAfter || rule.modifiedBefore || rule.keywords.trim());
+}
+
+// Returns a message for rules that can never match, or null if the rule is usable.
+export function ruleValidationError(rule: FileRule): string | null {
+  if (!rule.folder.trim()) return 'Choose the folder this rule assigns.';
+  if (!hasCondition(rule)) return 'Add at least one condition.';
+  if (rule.namePattern) {
+    try {
+      new RegExp(rule.namePattern, 'i');
+    } catch {
+      return 'The name pattern is not a valid regular expression.';
+    }
+  }
+  return null;
+}
+
+function startOfDay(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+function matchesMimeType(pattern: string, type: string): boolean {
+  const normalized = pattern.trim().toLowerCase();
+  if (normalized.endsWith('/*')) return type.toLowerCase().startsWith(normalized.slice(0, -1));
+  return type.toLowerCase() === normalized;
+}
+
+export function ruleMatches(rule: FileRule, subject: RuleSubject): boolean {
+  if (!rule.enabled || ruleValidationError(rule)) return false;
+
+  if (rule.namePattern && !new RegExp(rule.namePattern, 'i').test(subject.name)) return false;
+  if (rule.mimeType && !matchesMimeType(rule.mimeType, subject.type)) return false;
+  if (rule.minSizeKb !== null && subject.size < rule.minSizeKb * 1024) return false;
+  if (rule.maxSizeKb !== null && subject.size > rule.maxSizeKb * 1024) return false;
+  if (rule.modifiedAfter && subject.lastModified < startOfDay(rule.modifiedAfter)) return false;
+  if (rule.modifiedBefore && subject.lastModified >= startOfDay(rule.modifiedBefore) + 24 * 60 * 60 * 1000) return false;
+
+  const keywords = splitCommaList(rule.keywords).map(k => k.toLowerCase());
+  if (keywords.length > 0) {
+    const haystack = `${subject.name}\n${subject.extractedText ?? ''}`.toLowerCase();
+    if (!keywords.some(keyword => haystack.includes(keyword))) return false;
+  }
+  return true;
+}
+
+// Rules are evaluated in order; the first one that matches wins.
+export function findMatchingRule(rules: FileRule[], subject: RuleSubject): FileRule | null {
+  return rules.find(rule => ruleMatches(rule, subject)) ?? null;
+}
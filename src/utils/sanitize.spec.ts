@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeFilename, sanitizeFolderPath } from './sanitize';
+
+describe('sanitizeFolderPath', () => {
+  it('joins the segments with forward slashes', () => {
+    expect(sanitizeFolderPath(' Finance\\Invoices//2024 ')).toBe('Finance/Invoices/2024');
+  });
+
+  it('removes characters that Windows does not allow', () => {
+    expect(sanitizeFolderPath('Work: "Projects"?/<Draft>*|')).toBe('Work Projects/Draft');
+  });
+
+  it('drops "." and ".." segments, so the path stays inside the destination', () => {
+    expect(sanitizeFolderPath('../../Windows')).toBe('Windows');
+    expect(sanitizeFolderPath('Finance/../../etc/./passwd')).toBe('Finance/etc/passwd');
+    expect(sanitizeFolderPath('..\\..\\Users')).toBe('Users');
+    expect(sanitizeFolderPath('/Photos/')).toBe('Photos');
+    expect(sanitizeFolderPath('..')).toBe('');
+  });
+
+  it('keeps names that merely contain dots', () => {
+    expect(sanitizeFolderPath('v1.2/..hidden/...')).toBe('v1.2/..hidden/...');
+  });
+});
+
+describe('sanitizeFilename', () => {
+  it('removes path separators and characters that Windows does not allow', () => {
+    expect(sanitizeFilename(' ../invoice:2024?.pdf ')).toBe('..invoice2024.pdf');
+  });
+
+  it('rejects "." and ".."', () => {
+    expect(sanitizeFilename('..')).toBe('');
+    expect(sanitizeFilename('.')).toBe('');
+  });
+});
@@ -0,0 +1,18 @@
+// "." and ".." segments are dropped, so that a folder from the AI or an imported manifest, like "../../Windows",
+// can't lead out of the destination folder
+export function sanitizeFolderPath(path: string): string {
+  if (!path) return '';
+  return path
+    .replace(/[<>:"|?*]/g, '')
+    .split(/[/\\]+/)
+    .map(segment => segment.trim())
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+}
+
+export function sanitizeFilename(name: string): string {
+  if (!name) return '';
+  // Disallow path separators in filenames
+  const sanitized = name.trim().replace(/[<>:"/\\|?*]/g, '');
+  return sanitized === '.' || sanitized === '..' ? '' : sanitized;
+}
@@ -0,0 +1,256 @@
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { resolveCollisions } from './collisions';
+import { DO_NOT_MOVE, PlannableFile, ScriptOptions, generateOrganizeScript, generateUndoScript } from './script-generators';
+import { zipArchiveParts } from './zip-writer';
+
+const paths = { sourcePath: 'C:\\Users\\me\\ToSort', destinationPath: 'C:\\Users\\me\\Sorted' };
+const options = { dryRun: false, allowOverwrite: false, writeSidecars: false };
+
+const photo: PlannableFile = {
+  name: 'photo[1].jpg',
+  originalPath: 'ToSort/Holiday [2024]/photo[1].jpg',
+  finalFolder: 'Photos/[Best]',
+  suggestedName: 'beach[2].jpg',
+  useNewName: false,
+};
+
+const quoted: PlannableFile = {
+  name: "it's \u2018draft\u2019.pdf",
+  originalPath: "ToSort/My Docs/it's \u2018draft\u2019.pdf",
+  finalFolder: "Finance/Q1 'final' $HOME",
+  useNewName: false,
+};
+
+const zipped: PlannableFile = {
+  name: 'invoice.pdf',
+  originalPath: 'ToSort/bundle.zip/2024.zip/invoice.pdf',
+  finalFolder: 'Finance',
+  useNewName: false,
+  archive: { archivePath: 'ToSort/bundle.zip', entryPath: ['2024.zip', 'invoice.pdf'] },
+};
+
+describe('generatePowerShellScript', () => {
+  // -Path reads [ and ] as wildcards, so "photo[1].jpg" would never be found
+  it('passes source paths with brackets literally', () => {
+    const { content } = generateOrganizeScript('powershell', [photo], paths, options);
+    expect(content).toContain("$_sourceFile = 'C:\\Users\\me\\ToSort\\Holiday [2024]\\photo[1].jpg'");
+    expect(content).toContain('Test-Path -LiteralPath $_sourceFile');
+    expect(content).toContain('Move-Item -LiteralPath $_sourceFile');
+    expect(content).toContain('Test-Path -LiteralPath $_folderPath');
+    expect(content).not.toMatch(/(Test-Path|Move-Item) -Path/);
+  });
+
+  it('renames files with brackets in the source folder literally', () => {
+    const renamed = { ...photo, finalFolder: undefined, useNewName: true };
+    const { content } = generateOrganizeScript('powershell', [renamed], paths, options);
+    expect(content).toContain("$_destFile = 'C:\\Users\\me\\ToSort\\Holiday [2024]\\beach[2].jpg'");
+    expect(content).toContain('Move-Item -LiteralPath $_sourceFile');
+    expect(content).not.toMatch(/(Test-Path|Move-Item) -Path/);
+  });
+
+  it('moves files to destinations with brackets and spaces literally', () => {
+    const { content } = generateOrganizeScript('powershell', [photo], paths, options);
+    expect(content).toContain("$_destFile = 'C:\\Users\\me\\Sorted\\Photos\\[Best]\\photo[1].jpg'");
+    expect(content).toContain('Move-Item -LiteralPath $_sourceFile -Destination $_destFile -Force:$Overwrite');
+    expect(content).toContain("$_folderPath = 'C:\\Users\\me\\Sorted\\Photos\\[Best]'");
+  });
+
+  // PowerShell also ends single-quoted strings at typographic quotes
+  it('doubles straight and typographic single quotes', () => {
+    const { content } = generateOrganizeScript('powershell', [quoted], paths, options);
+    expect(content).toContain("$_sourceFile = 'C:\\Users\\me\\ToSort\\My Docs\\it''s \u2018\u2018draft\u2019\u2019.pdf'");
+    expect(content).toContain("$_folderPath = 'C:\\Users\\me\\Sorted\\Finance\\Q1 ''final'' $HOME'");
+  });
+
+  it('starts with a byte order mark so Windows PowerShell reads it as UTF-8', () => {
+    expect(generateOrganizeScript('powershell', [photo], paths, options).content.startsWith('\uFEFF')).toBe(true);
+    expect(generateUndoScript('powershell', [photo], paths, options).content.startsWith('\uFEFF')).toBe(true);
+  });
+
+  it('only previews the changes in a dry run', () => {
+    const script = generateOrganizeScript('powershell', [photo], paths, { ...options, dryRun: true });
+    expect(script.fileName).toBe('organize-files-dry-run.ps1');
+    expect(script.content).toContain('$WhatIfPreference = $true');
+    expect(generateOrganizeScript('powershell', [photo], paths, options).content).not.toContain('$WhatIfPreference = $true');
+    expect(generateUndoScript('powershell', [photo], paths, { ...options, dryRun: true }).fileName).toBe('undo-organize-files-dry-run.ps1');
+  });
+
+  it('replaces existing files only when overwriting is allowed', () => {
+    expect(generateOrganizeScript('powershell', [photo], paths, options).content).not.toContain('$Overwrite = $true');
+    expect(generateOrganizeScript('powershell', [photo], paths, { ...options, allowOverwrite: true }).content).toContain('$Overwrite = $true');
+  });
+
+  it('writes sidecars next to moved files', () => {
+    const tagged = { ...photo, tags: ['beach'], summary: "Sam's holiday" };
+    const { content } = generateOrganizeScript('powershell', [tagged], paths, { ...options, writeSidecars: true });
+    expect(content).toContain("Write-Sidecar 'C:\\Users\\me\\Sorted\\Photos\\[Best]\\photo[1].jpg.xmp' '");
+    expect(content).toContain("Sam''s holiday");
+    expect(generateOrganizeScript('powershell', [tagged], paths, options).content).not.toContain('Write-Sidecar ');
+  });
+
+  it('extracts files from nested archives and leaves the archive in place', () => {
+    const { content } = generateOrganizeScript('powershell', [zipped], paths, options);
+    expect(content).toContain("$_sourceFile = 'C:\\Users\\me\\ToSort\\bundle.zip'");
+    expect(content).toContain("Expand-ArchiveEntry $_sourceFile @('2024.zip', 'invoice.pdf') $_destFile");
+    expect(content).not.toContain('Move-Item -LiteralPath $_sourceFile');
+  });
+
+  it('restores files in reverse order and removes extracted files', () => {
+    const first = { ...photo, name: 'a.jpg', originalPath: 'ToSort/a.jpg' };
+    const second = { ...photo, name: 'b.jpg', originalPath: 'ToSort/b.jpg' };
+    const { content } = generateUndoScript('powershell', [first, second, zipped], paths, options);
+    expect(content.indexOf("$_originalFile = 'C:\\Users\\me\\ToSort\\b.jpg'"))
+      .toBeLessThan(content.indexOf("$_originalFile = 'C:\\Users\\me\\ToSort\\a.jpg'"));
+    expect(content).toContain('Move-Item -LiteralPath $_currentFile -Destination $_originalFile');
+    expect(content).toContain('Remove-Item -LiteralPath $_extractedFile');
+    expect(content).not.toContain('bundle.zip');
+  });
+});
+
+// The bash scripts are run for real in a temporary folder
+describe.skipIf(process.platform === 'win32')('generateBashScript', () => {
+  let root: string;
+  let localPaths: { sourcePath: string; destinationPath: string };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'organize-'));
+    localPaths = { sourcePath: join(root, 'ToSort'), destinationPath: join(root, 'Sorted') };
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function addFile(path: string, content: string | Uint8Array = path): void {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+
+  function readFile(path: string): string {
+    return readFileSync(join(root, path), 'utf8');
+  }
+
+  function run(files: PlannableFile[], scriptOptions: ScriptOptions = options, args: string[] = []): string {
+    const script = generateOrganizeScript('bash', files, localPaths, scriptOptions);
+    writeFileSync(join(root, script.fileName), script.content);
+    return execFileSync('bash', [join(root, script.fileName), ...args], { cwd: root, encoding: 'utf8', stdio: 'pipe' });
+  }
+
+  function undo(files: PlannableFile[], scriptOptions: ScriptOptions = options): string {
+    const script = generateUndoScript('bash', files, localPaths, scriptOptions);
+    writeFileSync(join(root, script.fileName), script.content);
+    return execFileSync('bash', [join(root, script.fileName)], { cwd: root, encoding: 'utf8', stdio: 'pipe' });
+  }
+
+  it('moves and renames files with quotes, spaces, brackets and dollar signs in their paths', () => {
+    addFile(quoted.originalPath);
+    addFile(photo.originalPath);
+    addFile('ToSort/notes $1.txt');
+    const notes = { name: 'notes $1.txt', originalPath: 'ToSort/notes $1.txt', finalFolder: DO_NOT_MOVE, suggestedName: "Sam's notes.txt", useNewName: true };
+
+    const output = run([quoted, { ...photo, useNewName: true }, notes]);
+    expect(readFile("Sorted/Finance/Q1 'final' $HOME/it's \u2018draft\u2019.pdf")).toBe(quoted.originalPath);
+    expect(readFile('Sorted/Photos/[Best]/beach[2].jpg')).toBe(photo.originalPath);
+    expect(readFile("ToSort/Sam's notes.txt")).toBe('ToSort/notes $1.txt');
+    expect(existsSync(join(root, photo.originalPath))).toBe(false);
+    expect(output).toContain('Moved:   2');
+    expect(output).toContain('Renamed: 1');
+  });
+
+  it('only prints the planned operations in a dry run', () => {
+    addFile(photo.originalPath);
+    for (const [scriptOptions, args] of [[{ ...options, dryRun: true }, []], [options, ['--dry-run']], [options, ['-n']]] as const) {
+      const output = run([photo], scriptOptions, [...args]);
+      expect(output).toContain('Dry run complete. No files were changed.');
+      expect(output).toContain('Moving Holiday [2024]/photo[1].jpg to Photos/[Best]/photo[1].jpg');
+    }
+    expect(readdirSync(root).sort()).toEqual(['ToSort', 'organize-files-dry-run.sh', 'organize-files.sh']);
+  });
+
+  it('skips files that already exist at the destination unless overwriting', () => {
+    addFile(photo.originalPath, 'new');
+    addFile('Sorted/Photos/[Best]/photo[1].jpg', 'old');
+    expect(run([photo])).toContain('Skipped: 1');
+    expect(readFile('Sorted/Photos/[Best]/photo[1].jpg')).toBe('old');
+
+    run([photo], options, ['--overwrite']);
+    expect(readFile('Sorted/Photos/[Best]/photo[1].jpg')).toBe('new');
+    expect(existsSync(join(root, photo.originalPath))).toBe(false);
+  });
+
+  it('moves colliding files to distinct destinations', () => {
+    addFile('ToSort/a/scan.pdf');
+    addFile('ToSort/b/scan.pdf');
+    const files = ['a', 'b'].map(folder => ({ name: 'scan.pdf', originalPath: `ToSort/${folder}/scan.pdf`, finalFolder: 'Scans', useNewName: false }));
+    run(resolveCollisions(files, 'suffix'));
+    expect(readFile('Sorted/Scans/scan.pdf')).toBe('ToSort/a/scan.pdf');
+    expect(readFile('Sorted/Scans/scan-2.pdf')).toBe('ToSort/b/scan.pdf');
+  });
+
+  it('undoes chained renames in reverse order', () => {
+    addFile('ToSort/a.txt');
+    addFile('ToSort/b.txt');
+    // b.txt makes room before a.txt takes its name
+    const files = [
+      { name: 'b.txt', originalPath: 'ToSort/b.txt', suggestedName: 'c.txt', useNewName: true },
+      { name: 'a.txt', originalPath: 'ToSort/a.txt', suggestedName: 'b.txt', useNewName: true },
+    ];
+    run(files);
+    expect(readFile('ToSort/b.txt')).toBe('ToSort/a.txt');
+    expect(readFile('ToSort/c.txt')).toBe('ToSort/b.txt');
+
+    expect(undo(files)).toContain('Restored: 2');
+    expect(readFile('ToSort/a.txt')).toBe('ToSort/a.txt');
+    expect(readFile('ToSort/b.txt')).toBe('ToSort/b.txt');
+    expect(existsSync(join(root, 'ToSort/c.txt'))).toBe(false);
+  });
+
+  it('writes sidecars, and the undo script removes them with the folders it created', () => {
+    addFile(quoted.originalPath);
+    addFile('Sorted/Existing/keep.txt');
+    const tagged = { ...quoted, finalFolder: "Existing/Q1 'final'", tags: ['invoice'], summary: "Sam's $5 invoice" };
+    run([tagged], { ...options, writeSidecars: true });
+    const sidecar = JSON.parse(readFile("Sorted/Existing/Q1 'final'/it's \u2018draft\u2019.pdf.json"));
+    expect(sidecar.summary).toBe("Sam's $5 invoice");
+
+    undo([tagged], { ...options, writeSidecars: true });
+    expect(readFile(quoted.originalPath)).toBe(quoted.originalPath);
+    expect(readdirSync(join(root, 'Sorted/Existing'))).toEqual(['keep.txt']);
+    expect(readdirSync(root).filter(name => name.endsWith('.txt'))).toEqual([]);
+  });
+
+  it('extracts files from nested archives, and the undo script removes them again', async () => {
+    if (!hasCommand('unzip')) return;
+    const inner = await zipBytes([{ path: 'invoice[1].pdf', data: 'invoice' }]);
+    addFile('ToSort/bundle.zip', await zipBytes([{ path: '2024.zip', data: inner }]));
+    const file = { ...zipped, archive: { archivePath: 'ToSort/bundle.zip', entryPath: ['2024.zip', 'invoice[1].pdf'] } };
+
+    expect(run([file])).toContain('Extracted: 1');
+    expect(readFile('Sorted/Finance/invoice.pdf')).toBe('invoice');
+
+    undo([file]);
+    expect(existsSync(join(root, 'Sorted/Finance'))).toBe(false);
+    expect(existsSync(join(root, 'ToSort/bundle.zip'))).toBe(true);
+  });
+});
+
+function hasCommand(command: string): boolean {
+  try {
+    execFileSync('sh', ['-c', `command -v ${command}`], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function zipBytes(entries: { path: string; data: string | Uint8Array }[]): Promise<Uint8Array> {
+  const parts: BlobPart[] = [];
+  for await (const part of zipArchiveParts(entries.map(({ path, data }) => ({ path, data: new Blob([data]) })))) {
+    parts.push(part);
+  }
+  return new Uint8Array(await new Blob(parts).arrayBuffer());
+}
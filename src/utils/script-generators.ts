@@ -0,0 +1,736 @@
+import { ArchiveLocation } from './archive-expansion';
+import { sanitizeFilename } from './sanitize';
+import { SidecarFile, SidecarMetadata, createSidecar } from './sidecar';
+
+export type ScriptTarget = 'powershell' | 'bash';
+
+export const DO_NOT_MOVE = '--do-not-move--';
+
+// Written next to the organize script so the undo script knows which folders it may remove.
+const CREATED_FOLDERS_LOG = 'organize-files.created-folders.txt';
+// Lists the sidecar files the organize script wrote, so the undo script removes only those.
+const SIDECARS_LOG = 'organize-files.sidecars.txt';
+// Lists the files the organize script extracted from ZIP archives, which the undo script removes again.
+const EXTRACTED_LOG = 'organize-files.extracted.txt';
+
+// The subset of an analyzed file that the script generators need.
+export interface PlannableFile extends SidecarMetadata {
+  name: string;
+  originalPath: string; // e.g., "ToSort/invoice-scan.pdf"
+  finalFolder?: string;
+  suggestedName?: string;
+  useNewName: boolean;
+  archive?: ArchiveLocation; // Files inside an archive are extracted from it; the archive stays where it is
+}
+
+export interface ScriptPaths {
+  sourcePath: string;
+  destinationPath: string;
+}
+
+export interface ScriptOptions {
+  dryRun: boolean; // Generate a script that only prints the planned operations
+  allowOverwrite: boolean; // Replace files that already exist at a destination instead of skipping them
+  writeSidecars: boolean; // Write the tags and summary of each moved file next to it, see createSidecar()
+}
+
+// sourceFolder is relative to the source root ('' for top-level files); renames happen inside it. For 'extract',
+// sourceName is the archive and entryPath the file inside it, see ArchiveLocation.
+export type PlannedOperation =
+  | { type: 'move'; sourceFolder: string; sourceName: string; destinationFolder: string; newName: string; sidecar?: SidecarFile }
+  | { type: 'extract'; sourceFolder: string; sourceName: string; entryPath: string[]; destinationFolder: string; newName: string; sidecar?: SidecarFile }
+  | { type: 'rename'; sourceFolder: string; sourceName: string; newName: string };
+
+export interface OrganizePlan {
+  // Relative to the destination root, '/'-separated, parents listed before their children
+  foldersToCreate: string[];
+  operations: PlannedOperation[];
+}
+
+export interface GeneratedScript {
+  fileName: string;
+  content: string;
+}
+
+// originalPath is like "SourceFolderName/image.jpg", we just need the "image.jpg" part
+export function originalFileName(file: PlannableFile): string {
+  return file.originalPath.split(/[/\\]+/).pop() || file.name;
+}
+
+// The folder containing the file, relative to the selected source folder ('' for top-level files).
+export function originalFolder(file: PlannableFile): string {
+  return file.originalPath.split(/[/\\]+/).slice(1, -1).join('/');
+}
+
+// The name the file will have once the script has run.
+export function targetFileName(file: PlannableFile): string {
+  const suggestedName = sanitizeFilename(file.suggestedName || '');
+  return file.useNewName && suggestedName ? suggestedName : originalFileName(file);
+}
+
+export function isMovedFile(file: PlannableFile): boolean {
+  return !!file.finalFolder && file.finalFolder !== DO_NOT_MOVE;
+}
+
+export function buildOrganizePlan(files: PlannableFile[], writeSidecars = false): OrganizePlan {
+  const foldersToCreate: string[] = [];
+  const operations: PlannedOperation[] = [];
+
+  for (const file of files) {
+    const sourceFolder = originalFolder(file);
+    const sourceName = originalFileName(file);
+    const newName = targetFileName(file);
+    const destinationFolder = file.finalFolder;
+
+    if (destinationFolder && isMovedFile(file)) {
+      const sidecar = writeSidecars ? createSidecar(newName, file) ?? undefined : undefined;
+      if (file.archive) {
+        // The archive's path is relative to the source root just like originalPath
+        const archive: PlannableFile = { name: '', originalPath: file.archive.archivePath, useNewName: false };
+        operations.push({
+          type: 'extract',
+          sourceFolder: originalFolder(archive),
+          sourceName: originalFileName(archive),
+          entryPath: file.archive.entryPath,
+          destinationFolder,
+          newName,
+          sidecar,
+        });
+      } else {
+        operations.push({ type: 'move', sourceFolder, sourceName, destinationFolder, newName, sidecar });
+      }
+
+      // Each ancestor gets its own entry so the undo script can remove every folder the run created
+      let currentPath = '';
+      for (const part of destinationFolder.split('/').filter(p => p)) {
+        currentPath = currentPath ? `${currentPath}/${part}` : part;
+        if (!foldersToCreate.includes(currentPath)) {
+          foldersToCreate.push(currentPath);
+        }
+      }
+    } else if (newName !== sourceName && !file.archive) {
+      // Files that stay inside their archive keep their names
+      operations.push({ type: 'rename', sourceFolder, sourceName, newName });
+    }
+  }
+
+  return { foldersToCreate, operations };
+}
+
+export function generateOrganizeScript(
+  target: ScriptTarget,
+  files: PlannableFile[],
+  paths: ScriptPaths,
+  options: ScriptOptions
+): GeneratedScript {
+  const plan = buildOrganizePlan(files, options.writeSidecars);
+  const suffix = options.dryRun ? '-dry-run' : '';
+  switch (target) {
+    case 'bash':
+      return { fileName: `organize-files${suffix}.sh`, content: generateBashScript(plan, paths, options) };
+    case 'powershell':
+      return { fileName: `organize-files${suffix}.ps1`, content: generatePowerShellScript(plan, paths, options) };
+  }
+}
+
+export function generateUndoScript(
+  target: ScriptTarget,
+  files: PlannableFile[],
+  paths: ScriptPaths,
+  options: ScriptOptions
+): GeneratedScript {
+  const plan = buildOrganizePlan(files);
+  const suffix = options.dryRun ? '-dry-run' : '';
+  switch (target) {
+    case 'bash':
+      return { fileName: `undo-organize-files${suffix}.sh`, content: generateBashUndoScript(plan, paths, options) };
+    case 'powershell':
+      return { fileName: `undo-organize-files${suffix}.ps1`, content: generatePowerShellUndoScript(plan, paths, options) };
+  }
+}
+
+function joinPath(root: string, relative: string, separator: '\\' | '/'): string {
+  const trimmedRoot = root.replace(/[/\\]+$/, '');
+  const relativeForTarget = relative.split('/').filter(p => p).join(separator);
+  return `${trimmedRoot}${separator}${relativeForTarget}`;
+}
+
+function operationSource(op: PlannedOperation, paths: ScriptPaths, separator: '\\' | '/'): string {
+  return joinPath(paths.sourcePath, `${op.sourceFolder}/${op.sourceName}`, separator);
+}
+
+function sidecarDestination(op: PlannedOperation & { type: 'move' | 'extract' }, sidecar: SidecarFile, paths: ScriptPaths, separator: '\\' | '/'): string {
+  return joinPath(paths.destinationPath, `${op.destinationFolder}/${sidecar.name}`, separator);
+}
+
+// Where an operation leaves the file, so the undo script can find it again.
+function operationDestination(op: PlannedOperation, paths: ScriptPaths, separator: '\\' | '/'): string {
+  return op.type === 'move' || op.type === 'extract'
+    ? joinPath(paths.destinationPath, `${op.destinationFolder}/${op.newName}`, separator)
+    : joinPath(paths.sourcePath, `${op.sourceFolder}/${op.newName}`, separator);
+}
+
+// The file's path below the source root, used in the messages the scripts print.
+function sourceLabel(op: PlannedOperation, separator: '\\' | '/'): string {
+  const parts = [...op.sourceFolder.split('/').filter(p => p), op.sourceName];
+  if (op.type === 'extract') parts.push(...op.entryPath.flatMap(path => path.split('/')));
+  return parts.join(separator);
+}
+
+// unzip treats entry names as wildcard patterns, so the wildcard characters are put in brackets to match themselves
+function unzipPattern(entryName: string): string {
+  return entryName.replace(/[[*?]/g, char => `[${char}]`);
+}
+
+// --- PowerShell (Windows) ---
+
+// PowerShell also ends single-quoted strings at typographic quotes, which are common in summaries
+function escapePowerShell(value: string): string {
+  return value.replace(/['\u2018\u2019\u201A\u201B]/g, quote => quote + quote);
+}
+
+// PowerShell 5 reads BOM-less scripts as ANSI, which mangles non-ASCII filenames
+const UTF8_BOM = '\uFEFF';
+
+function powerShellPreamble(options: ScriptOptions, params: string[] = []): string {
+  // SupportsShouldProcess lets the user pass -WhatIf, which every Move-Item/New-Item below honors
+  let preamble = `[CmdletBinding(SupportsShouldProcess)]
+param(${params.join(', ')})
+
+`;
+  if (options.dryRun) {
+    preamble += `# DRY RUN: nothing is changed, the planned operations are only printed.
+$WhatIfPreference = $true
+
+`;
+  }
+  preamble += `$_scriptDir = if ($PSScriptRoot) { $PSScriptRoot } else { (Get-Location).Path }
+$_createdFoldersLog = Join-Path $_scriptDir '${CREATED_FOLDERS_LOG}'
+$_sidecarsLog = Join-Path $_scriptDir '${SIDECARS_LOG}'
+$_extractedLog = Join-Path $_scriptDir '${EXTRACTED_LOG}'
+
+`;
+  return preamble;
+}
+
+export function generatePowerShellScript(plan: OrganizePlan, paths: ScriptPaths, options: ScriptOptions): string {
+  const { destinationPath } = paths;
+
+  let scriptContent = `# AI File Organizer - PowerShell Script
+# -------------------------------------
+# INSTRUCTIONS:
+# 1. This script uses the absolute paths you provided. You can run it from anywhere.
+# 2. To run, right-click this file and select "Run with PowerShell".
+# 3. To preview the changes first, run it from a PowerShell prompt with -WhatIf:
+#    .\\organize-files.ps1 -WhatIf
+# 4. Files that already exist at a destination are skipped, never replaced,
+#    unless the script is run with -Overwrite.
+#
+# NOTE: If you get an error about scripts being disabled, run this command in PowerShell once:
+# Set-ExecutionPolicy -Scope CurrentUser -ExecutionPolicy RemoteSigned
+# (And press 'Y' and Enter to confirm)
+# -------------------------------------\n
+`;
+  scriptContent += powerShellPreamble(options, ['[switch]$Overwrite']);
+  if (options.allowOverwrite) {
+    scriptContent += `# Generated with overwriting enabled: existing destination files are replaced.
+$Overwrite = $true
+
+`;
+  }
+
+  if (plan.operations.some(op => op.type !== 'rename' && op.sidecar)) {
+    // WriteAllText writes UTF-8 without a BOM, which JSON readers expect, but doesn't honor -WhatIf by itself
+    scriptContent += `function Write-Sidecar([string]$Path, [string]$Content) {
+    if ((Test-Path -LiteralPath $Path) -and -not $Overwrite) {
+        Write-Host "WARNING: Sidecar file already exists, skipping: '$Path'" -ForegroundColor Yellow
+    } elseif ($WhatIfPreference) {
+        Write-Host "What if: Writing sidecar file '$Path'"
+    } else {
+        Write-Host "Writing sidecar file '$Path'"
+        [System.IO.File]::WriteAllText($Path, $Content)
+        Add-Content -LiteralPath $_sidecarsLog -Value $Path -Encoding UTF8
+    }
+}
+
+`;
+  }
+
+  if (plan.operations.some(op => op.type === 'extract')) {
+    // ZipArchive reads nested archives from the entry stream of the outer one, without temporary files
+    scriptContent += `Add-Type -AssemblyName System.IO.Compression
+function Expand-ArchiveEntry([string]$Archive, [string[]]$EntryPath, [string]$Destination) {
+    $_streams = @([System.IO.File]::OpenRead($Archive))
+    try {
+        foreach ($_entryName in $EntryPath) {
+            $_zip = New-Object System.IO.Compression.ZipArchive($_streams[-1], [System.IO.Compression.ZipArchiveMode]::Read)
+            $_streams += $_zip
+            $_entry = $_zip.GetEntry($_entryName)
+            if (-not $_entry) { throw "'$_entryName' was not found in the archive." }
+            $_streams += $_entry.Open()
+        }
+        $_output = [System.IO.File]::Create($Destination)
+        try { $_streams[-1].CopyTo($_output) } finally { $_output.Dispose() }
+    } finally {
+        [array]::Reverse($_streams)
+        foreach ($_stream in $_streams) { $_stream.Dispose() }
+    }
+}
+
+`;
+  }
+
+  if (plan.foldersToCreate.length > 0) {
+    scriptContent += `# Create destination subfolders if they don't exist\n`;
+    plan.foldersToCreate.forEach(folder => {
+      const fullDestFolderPath = escapePowerShell(joinPath(destinationPath, folder, '\\'));
+      scriptContent += `$_folderPath = '${fullDestFolderPath}'
+if (-not (Test-Path -LiteralPath $_folderPath)) {
+    Write-Host "Creating folder: $_folderPath"
+    New-Item -ItemType Directory -Path $_folderPath -Force | Out-Null
+    if (-not $WhatIfPreference) { Add-Content -LiteralPath $_createdFoldersLog -Value $_folderPath -Encoding UTF8 }
+}\n`;
+    });
+    scriptContent += `\n`;
+  }
+
+  scriptContent += `# Process files\n`;
+  plan.operations.forEach(op => {
+    const originalFileNameOnly = escapePowerShell(sourceLabel(op, '\\'));
+    const sourceFilePath = escapePowerShell(operationSource(op, paths, '\\'));
+    const newName = escapePowerShell(op.newName);
+
+    if (op.type === 'move') {
+      const destFolderForScript = escapePowerShell(op.destinationFolder.replace(/\//g, '\\'));
+      const destinationFilePath = escapePowerShell(operationDestination(op, paths, '\\'));
+      const writeSidecar = op.sidecar
+        ? `
+    if (-not $_moveError) { Write-Sidecar '${escapePowerShell(sidecarDestination(op, op.sidecar, paths, '\\'))}' '${escapePowerShell(op.sidecar.content)}' }`
+        : '';
+
+      scriptContent += `$_sourceFile = '${sourceFilePath}'
+$_destFile = '${destinationFilePath}'
+if (-not (Test-Path -LiteralPath $_sourceFile)) {
+    Write-Host "WARNING: Source file not found, skipping: '${originalFileNameOnly}'" -ForegroundColor Yellow
+} elseif ((Test-Path -LiteralPath $_destFile) -and -not $Overwrite) {
+    Write-Host "WARNING: Destination already exists, skipping: '${destFolderForScript}\\${newName}'" -ForegroundColor Yellow
+} else {
+    Write-Host "Moving '${originalFileNameOnly}' to '${destFolderForScript}\\${newName}'"
+    Move-Item -LiteralPath $_sourceFile -Destination $_destFile -Force:$Overwrite -ErrorVariable _moveError${writeSidecar}
+}\n`;
+    } else if (op.type === 'extract') {
+      const destFolderForScript = escapePowerShell(op.destinationFolder.replace(/\//g, '\\'));
+      const destinationFilePath = escapePowerShell(operationDestination(op, paths, '\\'));
+      const entryPath = op.entryPath.map(path => `'${escapePowerShell(path)}'`).join(', ');
+      const writeSidecar = op.sidecar
+        ? `
+        Write-Sidecar '${escapePowerShell(sidecarDestination(op, op.sidecar, paths, '\\'))}' '${escapePowerShell(op.sidecar.content)}'`
+        : '';
+
+      // Expand-ArchiveEntry doesn't honor -WhatIf by itself; the archive is left in place either way
+      scriptContent += `$_sourceFile = '${sourceFilePath}'
+$_destFile = '${destinationFilePath}'
+if (-not (Test-Path -LiteralPath $_sourceFile)) {
+    Write-Host "WARNING: Archive not found, skipping: '${originalFileNameOnly}'" -ForegroundColor Yellow
+} elseif ((Test-Path -LiteralPath $_destFile) -and -not $Overwrite) {
+    Write-Host "WARNING: Destination already exists, skipping: '${destFolderForScript}\\${newName}'" -ForegroundColor Yellow
+} else {
+    Write-Host "Extracting '${originalFileNameOnly}' to '${destFolderForScript}\\${newName}'"
+    try {
+        if (-not $WhatIfPreference) {
+            Expand-ArchiveEntry $_sourceFile @(${entryPath}) $_destFile
+            Add-Content -LiteralPath $_extractedLog -Value $_destFile -Encoding UTF8
+        }${writeSidecar}
+    } catch {
+        Write-Host "WARNING: Could not extract '${originalFileNameOnly}': $_" -ForegroundColor Yellow
+    }
+}\n`;
+    } else {
+      const destinationFilePath = escapePowerShell(operationDestination(op, paths, '\\'));
+
+      scriptContent += `$_sourceFile = '${sourceFilePath}'
+$_destFile = '${destinationFilePath}'
+if (-not (Test-Path -LiteralPath $_sourceFile)) {
+    Write-Host "WARNING: Source file not found, skipping rename for: '${originalFileNameOnly}'" -ForegroundColor Yellow
+} elseif ((Test-Path -LiteralPath $_destFile) -and -not $Overwrite) {
+    Write-Host "WARNING: A file named '${newName}' already exists, skipping rename for: '${originalFileNameOnly}'" -ForegroundColor Yellow
+} else {
+    Write-Host "Renaming '${originalFileNameOnly}' to '${newName}' in the source folder"
+    Move-Item -LiteralPath $_sourceFile -Destination $_destFile -Force:$Overwrite
+}\n`;
+    }
+  });
+  scriptContent += `\n`;
+
+  scriptContent += `if ($WhatIfPreference) {
+    Write-Host "Dry run complete. No files were changed." -ForegroundColor Cyan
+} else {
+    Write-Host "Organization complete." -ForegroundColor Green
+}
+Read-Host "Press Enter to exit..."\n`;
+
+  return UTF8_BOM + scriptContent;
+}
+
+export function generatePowerShellUndoScript(plan: OrganizePlan, paths: ScriptPaths, options: ScriptOptions): string {
+  let scriptContent = `# AI File Organizer - PowerShell Undo Script
+# -------------------------------------
+# Moves every file handled by organize-files.ps1 back to its original location,
+# then removes the folders that script created, if they are now empty.
+#
+# INSTRUCTIONS:
+# 1. Keep this script in the same folder as organize-files.ps1 (it reads ${CREATED_FOLDERS_LOG}).
+# 2. To run, right-click this file and select "Run with PowerShell".
+# 3. To preview the changes first, run it from a PowerShell prompt with -WhatIf:
+#    .\\undo-organize-files.ps1 -WhatIf
+# -------------------------------------\n
+`;
+  scriptContent += powerShellPreamble(options);
+
+  scriptContent += `# Restore files\n`;
+  // Undo in reverse order so that chained operations unwind correctly
+  [...plan.operations].reverse().forEach(op => {
+    if (op.type === 'extract') return;
+    const currentFilePath = escapePowerShell(operationDestination(op, paths, '\\'));
+    const originalFilePath = escapePowerShell(operationSource(op, paths, '\\'));
+    const originalFileNameOnly = escapePowerShell(sourceLabel(op, '\\'));
+
+    scriptContent += `$_currentFile = '${currentFilePath}'
+$_originalFile = '${originalFilePath}'
+if (-not (Test-Path -LiteralPath $_currentFile)) {
+    Write-Host "WARNING: File not found, skipping restore of: '${originalFileNameOnly}'" -ForegroundColor Yellow
+} elseif (Test-Path -LiteralPath $_originalFile) {
+    Write-Host "WARNING: A file already exists at the original location, skipping: '${originalFileNameOnly}'" -ForegroundColor Yellow
+} else {
+    Write-Host "Restoring '${originalFileNameOnly}'"
+    Move-Item -LiteralPath $_currentFile -Destination $_originalFile
+}\n`;
+  });
+  scriptContent += `\n`;
+
+  if (plan.operations.some(op => op.type === 'extract')) {
+    scriptContent += `# Remove the files the organize script extracted from ZIP archives; the archives are still in place
+if (Test-Path -LiteralPath $_extractedLog) {
+    foreach ($_extractedFile in @(Get-Content -LiteralPath $_extractedLog -Encoding UTF8)) {
+        if (Test-Path -LiteralPath $_extractedFile) {
+            Write-Host "Removing extracted file: $_extractedFile"
+            Remove-Item -LiteralPath $_extractedFile
+        }
+    }
+    if (-not $WhatIfPreference) { Remove-Item -LiteralPath $_extractedLog }
+}
+
+`;
+  }
+
+  scriptContent += `# Remove the sidecar files written by the organize script
+if (Test-Path -LiteralPath $_sidecarsLog) {
+    foreach ($_sidecar in @(Get-Content -LiteralPath $_sidecarsLog -Encoding UTF8)) {
+        if (Test-Path -LiteralPath $_sidecar) {
+            Write-Host "Removing sidecar file: $_sidecar"
+            Remove-Item -LiteralPath $_sidecar
+        }
+    }
+    if (-not $WhatIfPreference) { Remove-Item -LiteralPath $_sidecarsLog }
+}
+
+# Remove folders created by the organize script, deepest first, if they are now empty
+if (Test-Path -LiteralPath $_createdFoldersLog) {
+    $_createdFolders = @(Get-Content -LiteralPath $_createdFoldersLog -Encoding UTF8) | Sort-Object -Property Length -Descending
+    foreach ($_folder in $_createdFolders) {
+        if ((Test-Path -LiteralPath $_folder) -and -not (Get-ChildItem -LiteralPath $_folder -Force | Select-Object -First 1)) {
+            Write-Host "Removing empty folder: $_folder"
+            Remove-Item -LiteralPath $_folder
+        }
+    }
+    if (-not $WhatIfPreference) { Remove-Item -LiteralPath $_createdFoldersLog }
+} else {
+    Write-Host "No ${CREATED_FOLDERS_LOG} found next to this script; destination folders were left in place." -ForegroundColor Yellow
+}
+
+if ($WhatIfPreference) {
+    Write-Host "Dry run complete. No files were changed." -ForegroundColor Cyan
+} else {
+    Write-Host "Undo complete." -ForegroundColor Green
+}
+Read-Host "Press Enter to exit..."\n`;
+
+  return UTF8_BOM + scriptContent;
+}
+
+// --- Bash / POSIX shell (Linux, macOS) ---
+
+// Wraps a value in single quotes, closing and reopening the quote around embedded single quotes.
+function quoteShell(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function shellPreamble(options: ScriptOptions, counters: string[], acceptsOverwrite = false): string {
+  const overwriteUsage = acceptsOverwrite ? '\n# Pass --overwrite to replace files that already exist at a destination.' : '';
+  const overwriteDefault = acceptsOverwrite ? `\n_overwrite=${options.allowOverwrite ? 1 : 0}` : '';
+  const overwriteCase = acceptsOverwrite ? '\n        --overwrite) _overwrite=1 ;;' : '';
+
+  return `set -u
+
+# Pass --dry-run (or -n) to only print the planned operations.${overwriteUsage}
+_dryRun=${options.dryRun ? 1 : 0}${overwriteDefault}
+for _arg in "$@"; do
+    case "$_arg" in
+        -n|--dry-run) _dryRun=1 ;;${overwriteCase}
+    esac
+done
+if [ "$_dryRun" = 1 ]; then
+    printf 'DRY RUN: nothing will be changed.\\n\\n'
+fi
+
+_scriptDir=$(CDPATH= cd -- "$(dirname -- "$0")" && pwd)
+_createdFoldersLog="$_scriptDir/${CREATED_FOLDERS_LOG}"
+_sidecarsLog="$_scriptDir/${SIDECARS_LOG}"
+_extractedLog="$_scriptDir/${EXTRACTED_LOG}"
+
+${counters.map(c => `${c}=0`).join('\n')}
+
+`;
+}
+
+export function generateBashScript(plan: OrganizePlan, paths: ScriptPaths, options: ScriptOptions): string {
+  const { destinationPath } = paths;
+
+  let scriptContent = `#!/usr/bin/env bash
+# AI File Organizer - Shell Script
+# -------------------------------------
+# INSTRUCTIONS:
+# 1. This script uses the absolute paths you provided. You can run it from anywhere.
+# 2. To run, open a terminal and execute: bash organize-files.sh
+# 3. To preview the changes first, run: bash organize-files.sh --dry-run
+# 4. Files that already exist at a destination are skipped, never replaced,
+#    unless the script is run with --overwrite.
+# -------------------------------------
+
+`;
+  const hasExtractions = plan.operations.some(op => op.type === 'extract');
+  const counters = hasExtractions ? ['_moved', '_extracted', '_renamed', '_skipped', '_missing'] : ['_moved', '_renamed', '_skipped', '_missing'];
+  scriptContent += shellPreamble(options, counters, true);
+  scriptContent += `_mvFlag=-n
+[ "$_overwrite" = 1 ] && _mvFlag=-f
+
+`;
+  if (hasExtractions) {
+    // Nested archives are extracted to temporary files level by level, since unzip can't read from a pipe
+    scriptContent += `if ! command -v unzip > /dev/null 2>&1; then
+    printf 'WARNING: unzip is not installed, so files inside ZIP archives will be skipped.\\n' >&2
+fi
+
+# Usage: _extractEntry DESTINATION ARCHIVE ENTRY [NESTED_ENTRY...]
+_extractEntry() {
+    _extractTo=$1
+    _extractFrom=$2
+    shift 2
+    _tempFiles=
+    _status=0
+    while [ $# -gt 0 ]; do
+        _tempFile=$(mktemp) || { _status=1; break; }
+        _tempFiles="$_tempFiles $_tempFile"
+        unzip -p "$_extractFrom" "$1" > "$_tempFile" || { _status=1; break; }
+        _extractFrom=$_tempFile
+        shift
+    done
+    if [ "$_status" = 0 ]; then
+        cat "$_extractFrom" > "$_extractTo" || _status=1
+    fi
+    [ -z "$_tempFiles" ] || rm -f $_tempFiles
+    return "$_status"
+}
+
+`;
+  }
+  if (plan.operations.some(op => op.type !== 'rename' && op.sidecar)) {
+    scriptContent += `_writeSidecar() {
+    if [ -e "$1" ] && [ "$_overwrite" != 1 ]; then
+        printf 'WARNING: Sidecar file already exists, skipping: %s\\n' "$1" >&2
+    else
+        printf 'Writing sidecar file: %s\\n' "$1"
+        if [ "$_dryRun" != 1 ] && printf '%s' "$2" > "$1"; then
+            printf '%s\\n' "$1" >> "$_sidecarsLog"
+        fi
+    fi
+}
+
+`;
+  }
+
+  if (plan.foldersToCreate.length > 0) {
+    scriptContent += `# Create destination subfolders if they don't exist\n`;
+    plan.foldersToCreate.forEach(folder => {
+      scriptContent += `_folderPath=${quoteShell(joinPath(destinationPath, folder, '/'))}
+if [ ! -d "$_folderPath" ]; then
+    printf 'Creating folder: %s\\n' "$_folderPath"
+    if [ "$_dryRun" != 1 ] && mkdir -p -- "$_folderPath"; then
+        printf '%s\\n' "$_folderPath" >> "$_createdFoldersLog"
+    fi
+fi\n`;
+    });
+    scriptContent += `\n`;
+  }
+
+  scriptContent += `# Process files\n`;
+  plan.operations.forEach(op => {
+    const sourceFilePath = quoteShell(operationSource(op, paths, '/'));
+    const quotedLabel = quoteShell(sourceLabel(op, '/'));
+    const destinationFilePath = quoteShell(operationDestination(op, paths, '/'));
+
+    let action: string;
+    let counter: string;
+    let transfer = `mv "$_mvFlag" -- "$_sourceFile" "$_destFile" && [ ! -e "$_sourceFile" ]`;
+    let failure = 'Could not move';
+    let afterMove = '';
+    let logTransfer = '';
+    if (op.type === 'move' || op.type === 'extract') {
+      const destinationLabel = quoteShell(`${op.destinationFolder}/${op.newName}`);
+      if (op.type === 'move') {
+        action = `printf 'Moving %s to %s\\n' ${quotedLabel} ${destinationLabel}`;
+        counter = '_moved';
+      } else {
+        action = `printf 'Extracting %s to %s\\n' ${quotedLabel} ${destinationLabel}`;
+        counter = '_extracted';
+        transfer = `_extractEntry "$_destFile" "$_sourceFile" ${op.entryPath.map(path => quoteShell(unzipPattern(path))).join(' ')}`;
+        failure = 'Could not extract';
+        logTransfer = `\n        printf '%s\\n' "$_destFile" >> "$_extractedLog"`;
+      }
+      if (op.sidecar) {
+        afterMove += `\n        _writeSidecar ${quoteShell(sidecarDestination(op, op.sidecar, paths, '/'))} ${quoteShell(op.sidecar.content)}`;
+      }
+    } else {
+      action = `printf 'Renaming %s to %s in the source folder\\n' ${quotedLabel} ${quoteShell(op.newName)}`;
+      counter = '_renamed';
+    }
+
+    scriptContent += `_sourceFile=${sourceFilePath}
+_destFile=${destinationFilePath}
+if [ ! -e "$_sourceFile" ]; then
+    printf 'WARNING: Source file not found, skipping: %s\\n' ${quotedLabel} >&2
+    _missing=$((_missing + 1))
+elif [ -e "$_destFile" ] && [ "$_overwrite" != 1 ]; then
+    printf 'WARNING: Destination already exists, skipping: %s\\n' "$_destFile" >&2
+    _skipped=$((_skipped + 1))
+else
+    ${action}
+    if [ "$_dryRun" = 1 ]; then
+        ${counter}=$((${counter} + 1))${afterMove}
+    elif ${transfer}; then
+        ${counter}=$((${counter} + 1))${logTransfer}${afterMove}
+    else
+        printf 'WARNING: ${failure}: %s\\n' ${quotedLabel} >&2
+        _skipped=$((_skipped + 1))
+    fi
+fi\n`;
+  });
+  scriptContent += `\n`;
+
+  scriptContent += `if [ "$_dryRun" = 1 ]; then
+    printf '\\nDry run complete. No files were changed.\\n'
+else
+    printf '\\nOrganization complete.\\n'
+fi
+printf '  Moved:   %d\\n' "$_moved"${hasExtractions ? `\nprintf '  Extracted: %d\\n' "$_extracted"` : ''}
+printf '  Renamed: %d\\n' "$_renamed"
+printf '  Skipped: %d\\n' "$_skipped"
+printf '  Missing: %d\\n' "$_missing"\n`;
+
+  return scriptContent;
+}
+
+export function generateBashUndoScript(plan: OrganizePlan, paths: ScriptPaths, options: ScriptOptions): string {
+  let scriptContent = `#!/usr/bin/env bash
+# AI File Organizer - Shell Undo Script
+# -------------------------------------
+# Moves every file handled by organize-files.sh back to its original location,
+# then removes the folders that script created, if they are now empty.
+#
+# INSTRUCTIONS:
+# 1. Keep this script in the same folder as organize-files.sh (it reads ${CREATED_FOLDERS_LOG}).
+# 2. To run, open a terminal and execute: bash undo-organize-files.sh
+# 3. To preview the changes first, run: bash undo-organize-files.sh --dry-run
+# -------------------------------------
+
+`;
+  scriptContent += shellPreamble(options, ['_restored', '_skipped', '_missing']);
+
+  scriptContent += `# Restore files\n`;
+  // Undo in reverse order so that chained operations unwind correctly
+  [...plan.operations].reverse().forEach(op => {
+    if (op.type === 'extract') return;
+    const quotedLabel = quoteShell(sourceLabel(op, '/'));
+
+    scriptContent += `_currentFile=${quoteShell(operationDestination(op, paths, '/'))}
+_originalFile=${quoteShell(operationSource(op, paths, '/'))}
+if [ ! -e "$_currentFile" ]; then
+    printf 'WARNING: File not found, skipping restore of: %s\\n' ${quotedLabel} >&2
+    _missing=$((_missing + 1))
+elif [ -e "$_originalFile" ]; then
+    printf 'WARNING: A file already exists at the original location, skipping: %s\\n' ${quotedLabel} >&2
+    _skipped=$((_skipped + 1))
+else
+    printf 'Restoring %s\\n' ${quotedLabel}
+    if [ "$_dryRun" = 1 ]; then
+        _restored=$((_restored + 1))
+    elif mv -n -- "$_currentFile" "$_originalFile" && [ ! -e "$_currentFile" ]; then
+        _restored=$((_restored + 1))
+    else
+        printf 'WARNING: Could not restore: %s\\n' ${quotedLabel} >&2
+        _skipped=$((_skipped + 1))
+    fi
+fi\n`;
+  });
+  scriptContent += `\n`;
+
+  if (plan.operations.some(op => op.type === 'extract')) {
+    scriptContent += `# Remove the files the organize script extracted from ZIP archives; the archives are still in place
+if [ -f "$_extractedLog" ]; then
+    while IFS= read -r _extractedFile; do
+        if [ -f "$_extractedFile" ]; then
+            printf 'Removing extracted file: %s\\n' "$_extractedFile"
+            [ "$_dryRun" = 1 ] || rm -f -- "$_extractedFile"
+        fi
+    done < "$_extractedLog"
+    [ "$_dryRun" = 1 ] || rm -f -- "$_extractedLog"
+fi
+
+`;
+  }
+
+  scriptContent += `# Remove the sidecar files written by the organize script
+if [ -f "$_sidecarsLog" ]; then
+    while IFS= read -r _sidecar; do
+        if [ -f "$_sidecar" ]; then
+            printf 'Removing sidecar file: %s\\n' "$_sidecar"
+            [ "$_dryRun" = 1 ] || rm -f -- "$_sidecar"
+        fi
+    done < "$_sidecarsLog"
+    [ "$_dryRun" = 1 ] || rm -f -- "$_sidecarsLog"
+fi
+
+# Remove folders created by the organize script, deepest first, if they are now empty
+if [ -f "$_createdFoldersLog" ]; then
+    awk '{ print length($0) "\\t" $0 }' "$_createdFoldersLog" | sort -rn | cut -f2- | while IFS= read -r _folder; do
+        if [ -d "$_folder" ] && [ -z "$(ls -A -- "$_folder")" ]; then
+            printf 'Removing empty folder: %s\\n' "$_folder"
+            [ "$_dryRun" = 1 ] || rmdir -- "$_folder"
+        fi
+    done
+    [ "$_dryRun" = 1 ] || rm -f -- "$_createdFoldersLog"
+else
+    printf 'WARNING: No %s found next to this script; destination folders were left in place.\\n' ${quoteShell(CREATED_FOLDERS_LOG)} >&2
+fi
+
+if [ "$_dryRun" = 1 ]; then
+    printf '\\nDry run complete. No files were changed.\\n'
+else
+    printf '\\nUndo complete.\\n'
+fi
+printf '  Restored: %d\\n' "$_restored"
+printf '  Skipped:  %d\\n' "$_skipped"
+printf '  Missing:  %d\\n' "$_missing"\n`;
+
+  return scriptContent;
+}
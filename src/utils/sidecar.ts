@@ -0,0 +1,79 @@
+// The analysis results that are written next to an organized file.
+export interface SidecarMetadata {
+  tags?: string[];
+  summary?: string;
+  title?: string;
+  documentDate?: string;
+  vendor?: string;
+  totalAmount?: string;
+  currency?: string;
+  documentNumber?: string;
+}
+
+export interface SidecarFile {
+  name: string;
+  content: string;
+}
+
+// Photo tools read XMP sidecars; everything else gets a JSON file that any tool can parse
+const XMP_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'heif', 'tif', 'tiff', 'bmp', 'avif'];
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function languageAlternative(element: string, value: string): string {
+  return `      <${element}>
+        <rdf:Alt>
+          <rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li>
+        </rdf:Alt>
+      </${element}>
+`;
+}
+
+// Uses the Dublin Core properties that Lightroom, darktable and digiKam show as title, caption and keywords.
+export function createXmpSidecar(metadata: SidecarMetadata): string {
+  const tags = metadata.tags ?? [];
+  let properties = '';
+  if (metadata.title) properties += languageAlternative('dc:title', metadata.title);
+  if (metadata.summary) properties += languageAlternative('dc:description', metadata.summary);
+  if (tags.length > 0) {
+    properties += `      <dc:subject>
+        <rdf:Bag>
+${tags.map(tag => `          <rdf:li>${escapeXml(tag)}</rdf:li>`).join('\n')}
+        </rdf:Bag>
+      </dc:subject>
+`;
+  }
+  return `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+${properties}    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+`;
+}
+
+export function createJsonSidecar(fileName: string, metadata: SidecarMetadata): string {
+  const { tags = [], summary, title, documentDate, vendor, totalAmount, currency, documentNumber } = metadata;
+  const fields = { fileName, title, summary, tags, documentDate, vendor, totalAmount, currency, documentNumber };
+  // Empty details are left out instead of being written as nulls
+  const present = Object.entries(fields).filter(([, value]) => value !== undefined && value !== '');
+  return `${JSON.stringify(Object.fromEntries(present), null, 2)}\n`;
+}
+
+// The sidecar keeps the full file name ("photo.jpg.xmp", "invoice.pdf.json"), so that "photo.jpg" and "photo.raw" in
+// the same folder don't share one. Null when the analysis produced nothing worth writing.
+// Embedding the metadata in the file itself would mean rewriting PDFs and JPEGs in the browser, which risks damaging
+// them, so it is always written next to the file instead.
+export function createSidecar(fileName: string, metadata: SidecarMetadata): SidecarFile | null {
+  if (!metadata.summary && !metadata.tags?.length) return null;
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  return XMP_EXTENSIONS.includes(extension)
+    ? { name: `${fileName}.xmp`, content: createXmpSidecar(metadata) }
+    : { name: `${fileName}.json`, content: createJsonSidecar(fileName, metadata) };
+}
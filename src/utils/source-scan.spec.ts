@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { SourceScanOptions, globToRegExp, isIncludedInScan, isSystemFile, parsePatternList } from './source-scan';
+
+const options: SourceScanOptions = { includeSubfolders: true, maxDepth: 2, includePatterns: [], excludePatterns: [] };
+
+describe('parsePatternList', () => {
+  it('splits and trims the patterns and uses forward slashes', () => {
+    expect(parsePatternList(' *.pdf, Scans\\2024/*,, ')).toEqual(['*.pdf', 'Scans/2024/*']);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('matches * and ? within one folder', () => {
+    expect(globToRegExp('Scans/202?-*').test('Scans/2024-01.pdf')).toBe(true);
+    expect(globToRegExp('Scans/202?-*').test('Scans/2024-01/a.pdf')).toBe(false);
+    expect(globToRegExp('*.pdf').test('a/b.pdf')).toBe(false);
+  });
+
+  it('matches ** across folders, including none', () => {
+    expect(globToRegExp('**/*.pdf').test('invoice.pdf')).toBe(true);
+    expect(globToRegExp('**/*.pdf').test('2024/Scans/invoice.pdf')).toBe(true);
+    expect(globToRegExp('Scans/**').test('Scans/2024/invoice.pdf')).toBe(true);
+    expect(globToRegExp('Scans/**/*.jpg').test('Scans/photo.jpg')).toBe(true);
+    expect(globToRegExp('Scans/**/*.jpg').test('Other/Scans/photo.jpg')).toBe(false);
+  });
+
+  it('is case-insensitive and takes other characters literally', () => {
+    expect(globToRegExp('*.PDF').test('invoice.pdf')).toBe(true);
+    expect(globToRegExp('report (1).pdf').test('report (1).pdf')).toBe(true);
+    expect(globToRegExp('a+b.pdf').test('aab.pdf')).toBe(false);
+  });
+});
+
+describe('isIncludedInScan', () => {
+  it('only includes top-level files unless subfolders are included', () => {
+    const topLevel = { ...options, includeSubfolders: false };
+    expect(isIncludedInScan('invoice.pdf', topLevel)).toBe(true);
+    expect(isIncludedInScan('2024/invoice.pdf', topLevel)).toBe(false);
+  });
+
+  it('cuts off files deeper than the maximum depth', () => {
+    expect(isIncludedInScan('2024/invoice.pdf', options)).toBe(true);
+    expect(isIncludedInScan('2024/Scans/invoice.pdf', options)).toBe(true);
+    expect(isIncludedInScan('2024/Scans/January/invoice.pdf', options)).toBe(false);
+    expect(isIncludedInScan('2024/Scans/invoice.pdf', { ...options, maxDepth: 1 })).toBe(false);
+  });
+
+  it('matches patterns without a slash against the name, and with one against the whole path', () => {
+    const pdfs = { ...options, includePatterns: ['*.pdf'] };
+    expect(isIncludedInScan('2024/invoice.pdf', pdfs)).toBe(true);
+    expect(isIncludedInScan('2024.pdf/photo.jpg', pdfs)).toBe(false);
+
+    const scans = { ...options, includePatterns: ['Scans/**'] };
+    expect(isIncludedInScan('Scans/2024/invoice.pdf', scans)).toBe(true);
+    expect(isIncludedInScan('Other/Scans/invoice.pdf', scans)).toBe(false);
+  });
+
+  it('includes files that match any include pattern', () => {
+    const documents = { ...options, includePatterns: ['*.pdf', '**/*.docx'] };
+    expect(isIncludedInScan('letter.docx', documents)).toBe(true);
+    expect(isIncludedInScan('2024/photo.jpg', documents)).toBe(false);
+  });
+
+  it('excludes whole folders by name, and exclusions win over inclusions', () => {
+    const scan = { ...options, includePatterns: ['*.pdf'], excludePatterns: ['node_modules', '**/Drafts/*.pdf'] };
+    expect(isIncludedInScan('node_modules/pkg/readme.pdf', scan)).toBe(false);
+    expect(isIncludedInScan('2024/Drafts/invoice.pdf', scan)).toBe(false);
+    expect(isIncludedInScan('2024/Final/invoice.pdf', scan)).toBe(true);
+  });
+});
+
+describe('isSystemFile', () => {
+  it('recognizes hidden files and the ones operating systems add', () => {
+    expect(['.DS_Store', '._invoice.pdf', 'Thumbs.db', 'desktop.ini'].every(isSystemFile)).toBe(true);
+    expect(isSystemFile('invoice.pdf')).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+export interface SourceScanOptions {
+  includeSubfolders: boolean;
+  maxDepth: number; // How many folder levels below the source folder to scan (1 = direct subfolders only)
+  includePatterns: string[];
+  excludePatterns: string[];
+}
+
+// Patterns are entered like the folder list: a comma-separated string.
+export function parsePatternList(value: string): string[] {
+  return value.split(',').map(p => p.trim().replace(/\\/g, '/')).filter(p => p);
+}
+
+// Converts a glob such as "**/*.pdf" or "Scans/202?-*" into an anchored, case-insensitive regular expression.
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      i++;
+      if (pattern[i + 1] === '/') {
+        // "**/" matches zero or more whole folders
+        i++;
+        regex += '(?:.*/)?';
+      } else {
+        regex += '.*';
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`, 'i');
+}
+
+// Patterns without a slash match a single name (like .gitignore), patterns with one match the whole relative path.
+function matchesPattern(segments: string[], pattern: string, matchAnySegment: boolean): boolean {
+  const regex = globToRegExp(pattern);
+  if (pattern.includes('/')) {
+    return regex.test(segments.join('/'));
+  }
+  const candidates = matchAnySegment ? segments : segments.slice(-1);
+  return candidates.some(segment => regex.test(segment));
+}
+
+// Hidden files and the ones the operating system puts in folders by itself, which are never worth organizing.
+export function isSystemFile(name: string): boolean {
+  return name.startsWith('.') || ['thumbs.db', 'desktop.ini'].includes(name.toLowerCase());
+}
+
+// relativePath is below the selected source folder, e.g. "2024/Scans/invoice.pdf".
+export function isIncludedInScan(relativePath: string, options: SourceScanOptions): boolean {
+  const segments = relativePath.split('/').filter(p => p);
+  const depth = segments.length - 1;
+
+  if (depth > (options.includeSubfolders ? options.maxDepth : 0)) return false;
+
+  // Excluding a folder name excludes everything inside it
+  if (options.excludePatterns.some(p => matchesPattern(segments, p, true))) return false;
+
+  return options.includePatterns.length === 0 || options.includePatterns.some(p => matchesPattern(segments, p, false));
+}
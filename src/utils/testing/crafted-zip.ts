@@ -0,0 +1,78 @@
+import { deflateRawSync } from 'node:zlib';
+
+// Builds ZIP archives byte by byte for the specs, including the broken and hostile ones zip-writer never writes.
+export interface CraftedEntry {
+  path: string;
+  data?: string | Uint8Array;
+  method?: number; // 0 = stored, 8 = deflate; anything else is written as stored data under that method
+  flags?: number;
+  size?: number; // The uncompressed size written to the headers, the real one unless set
+  compressed?: Uint8Array; // Written instead of the data compressed with the method
+}
+
+const UTF8_FLAG = 0x0800;
+// 2024-03-15 10:30:20 in MS-DOS format
+const DOS_TIME = (10 << 11) | (30 << 5) | 10;
+const DOS_DATE = ((2024 - 1980) << 9) | (3 << 5) | 15;
+
+export function craftZip(entries: CraftedEntry[], comment = ''): Blob {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data ?? new Uint8Array();
+    const method = entry.method ?? 0;
+    const compressed = entry.compressed ?? (method === 8 ? new Uint8Array(deflateRawSync(data)) : data);
+    const flags = entry.flags ?? UTF8_FLAG;
+    const size = entry.size ?? data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, flags, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, DOS_TIME, true);
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, compressed);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, flags, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, DOS_TIME, true);
+    central.setUint16(14, DOS_DATE, true);
+    central.setUint32(20, compressed.length, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + compressed.length;
+  }
+
+  const commentBytes = encoder.encode(comment);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralParts.reduce((total, part) => total + part.length, 0), true);
+  end.setUint32(16, offset, true);
+  end.setUint16(20, commentBytes.length, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer), commentBytes]);
+}
+
+// Overwrites bytes of an archive, counted from its end when the offset is negative.
+export async function patchZip(zip: Blob, offset: number, bytes: number[]): Promise<Blob> {
+  const data = new Uint8Array(await zip.arrayBuffer());
+  data.set(bytes, offset < 0 ? data.length + offset : offset);
+  return new Blob([data]);
+}
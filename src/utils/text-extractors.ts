@@ -0,0 +1,117 @@
+import { extractEmailText, extractOutlookMessageText } from './email-text';
+import { htmlToText } from './html-text';
+import { extractOpenDocumentText, extractPresentationText, extractSpreadsheetText } from './office-text';
+
+// Turns a file the AI can't read directly into text that is analyzed instead.
+export interface TextExtractor {
+  label: string; // What the file was read as, e.g. "Spreadsheet"
+  extensions: string[]; // Lower case, without the dot
+  mimeTypes: string[];
+  extract(file: File): Promise<string>;
+}
+
+export interface FileDescription {
+  name: string;
+  path: string;
+  type: string;
+  size: number;
+  lastModified?: number;
+}
+
+const registry: TextExtractor[] = [];
+
+// Extractors registered later take precedence, so that a built-in one can be replaced.
+export function registerTextExtractor(extractor: TextExtractor): void {
+  registry.unshift(extractor);
+}
+
+export function fileExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+export function findTextExtractor(file: { name: string; type: string }): TextExtractor | undefined {
+  const extension = fileExtension(file.name);
+  // The extension decides first: browsers report many types, such as CSV on Windows, inconsistently
+  return registry.find(e => extension && e.extensions.includes(extension))
+    ?? registry.find(e => file.type && e.mimeTypes.includes(file.type));
+}
+
+// What is known about a file whose content can't be read. It is classified by this alone.
+export function describeFile(file: FileDescription): string {
+  const lines = [`File name: ${file.name}`, `Path: ${file.path}`];
+  if (file.type) lines.push(`Type: ${file.type}`);
+  lines.push(`Size: ${(file.size / 1024).toFixed(1)} KB`);
+  if (file.lastModified) lines.push(`Last modified: ${new Date(file.lastModified).toISOString().slice(0, 10)}`);
+  return lines.join('\n');
+}
+
+async function bytesOf(file: File): Promise<Uint8Array> {
+  return new Uint8Array(await file.arrayBuffer());
+}
+
+registerTextExtractor({
+  label: 'Text',
+  extensions: ['txt', 'text', 'log'],
+  mimeTypes: ['text/plain'],
+  extract: file => file.text(),
+});
+registerTextExtractor({
+  label: 'Markdown',
+  extensions: ['md', 'markdown'],
+  mimeTypes: ['text/markdown'],
+  extract: file => file.text(),
+});
+registerTextExtractor({
+  label: 'CSV',
+  extensions: ['csv', 'tsv'],
+  mimeTypes: ['text/csv', 'text/tab-separated-values'],
+  extract: file => file.text(),
+});
+registerTextExtractor({
+  label: 'Web page',
+  extensions: ['html', 'htm', 'xhtml'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extract: async file => htmlToText(await file.text()),
+});
+registerTextExtractor({
+  label: 'Email',
+  extensions: ['eml'],
+  mimeTypes: ['message/rfc822'],
+  extract: async file => extractEmailText(await bytesOf(file)),
+});
+registerTextExtractor({
+  label: 'Outlook message',
+  extensions: ['msg'],
+  mimeTypes: ['application/vnd.ms-outlook'],
+  extract: async file => extractOutlookMessageText(await bytesOf(file)),
+});
+registerTextExtractor({
+  label: 'Word document',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  // mammoth is loaded from a CDN in index.html
+  extract: async file => (await (window as any).mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() })).value,
+});
+registerTextExtractor({
+  label: 'Spreadsheet',
+  extensions: ['xlsx', 'xlsm'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel.sheet.macroEnabled.12'],
+  extract: extractSpreadsheetText,
+});
+registerTextExtractor({
+  label: 'Presentation',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  extract: extractPresentationText,
+});
+registerTextExtractor({
+  label: 'OpenDocument',
+  extensions: ['odt', 'ods', 'odp'],
+  mimeTypes: [
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation',
+  ],
+  extract: extractOpenDocumentText,
+});
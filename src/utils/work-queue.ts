@@ -0,0 +1,86 @@
+export interface WorkQueueOptions<T> {
+  concurrency: number;
+  key: (item: T) => string;
+  // Should not throw; a rejected item is logged and the queue moves on
+  worker: (item: T, signal: AbortSignal) => Promise<void>;
+}
+
+// A pool that starts the next item as soon as any slot frees up, instead of waiting for a whole batch.
+// Pausing only stops new items from starting; items already running are allowed to finish.
+export class WorkQueue<T> {
+  private pending: T[];
+  private running = new Map<string, AbortController>();
+  private concurrency: number;
+  private paused = false;
+  private resolveDone: () => void = () => {};
+  readonly done: Promise<void>;
+
+  constructor(items: T[], private options: WorkQueueOptions<T>) {
+    this.pending = [...items];
+    this.concurrency = Math.max(1, options.concurrency);
+    this.done = new Promise(resolve => (this.resolveDone = resolve));
+    this.pump();
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, concurrency);
+    this.pump();
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.pump();
+  }
+
+  // Returns the items that were still waiting; running items are aborted and settle through their worker
+  cancel(): T[] {
+    const dequeued = this.pending;
+    this.pending = [];
+    this.running.forEach(controller => controller.abort());
+    this.pump();
+    return dequeued;
+  }
+
+  // Returns true if the item was still waiting, in which case its worker will never be called
+  cancelItem(key: string): boolean {
+    const index = this.pending.findIndex(item => this.options.key(item) === key);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+      this.pump();
+      return true;
+    }
+    this.running.get(key)?.abort();
+    return false;
+  }
+
+  private pump(): void {
+    while (!this.paused && this.running.size < this.concurrency && this.pending.length > 0) {
+      this.start(this.pending.shift()!);
+    }
+    if (this.running.size === 0 && this.pending.length === 0) {
+      this.resolveDone();
+    }
+  }
+
+  private async start(item: T): Promise<void> {
+    const key = this.options.key(item);
+    const controller = new AbortController();
+    this.running.set(key, controller);
+    try {
+      await this.options.worker(item, controller.signal);
+    } catch (error) {
+      console.error(`Work queue item ${key} failed:`, error);
+    } finally {
+      this.running.delete(key);
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { craftZip, patchZip } from './testing/crafted-zip';
+import { readZipEntries, readZipText } from './zip-reader';
+
+const text = 'Invoice 2024-01\n'.repeat(100);
+
+describe('readZipEntries', () => {
+  it('reads stored and deflated entries', async () => {
+    const entries = await readZipEntries(craftZip([
+      { path: 'Docs/', data: '' },
+      { path: 'Docs/stored.txt', data: text },
+      { path: 'Docs/deflated.txt', data: text, method: 8 },
+    ]));
+    expect(entries.map(({ path, isDirectory, size }) => ({ path, isDirectory, size }))).toEqual([
+      { path: 'Docs/', isDirectory: true, size: 0 },
+      { path: 'Docs/stored.txt', isDirectory: false, size: text.length },
+      { path: 'Docs/deflated.txt', isDirectory: false, size: text.length },
+    ]);
+    expect(entries[2].compressedSize).toBeLessThan(text.length);
+    expect(await readZipText(entries, 'Docs/stored.txt')).toBe(text);
+    expect(await readZipText(entries, 'Docs/deflated.txt')).toBe(text);
+    expect(await readZipText(entries, 'Docs/missing.txt')).toBeNull();
+  });
+
+  it('reads UTF-8 names, backslashes and MS-DOS dates', async () => {
+    const [entry] = await readZipEntries(craftZip([{ path: 'Über\\naïve 📄.txt', data: 'x', flags: 0 }]));
+    expect(entry.path).toBe('Über/naïve 📄.txt');
+    expect(entry.lastModified).toBe(new Date(2024, 2, 15, 10, 30, 20).getTime());
+  });
+
+  it('finds the end of the archive behind a comment', async () => {
+    const entries = await readZipEntries(craftZip([{ path: 'a.txt', data: 'a' }], 'PK\x05\x06 is not the end'));
+    expect(await readZipText(entries, 'a.txt')).toBe('a');
+  });
+
+  it('rejects files that are not ZIP archives', async () => {
+    await expect(readZipEntries(new Blob(['not a zip']))).rejects.toThrow('The file is not a ZIP archive.');
+    await expect(readZipEntries(new Blob([]))).rejects.toThrow('The file is not a ZIP archive.');
+  });
+
+  it('rejects truncated archives', async () => {
+    const zip = craftZip([{ path: 'a.txt', data: text }]);
+    await expect(readZipEntries(zip.slice(0, zip.size - 10))).rejects.toThrow('The file is not a ZIP archive.');
+    // Without the start of the central directory, which is found by its offset
+    const withoutDirectory = new Blob([zip.slice(0, 30 + 'a.txt'.length + text.length), zip.slice(zip.size - 22)]);
+    await expect(readZipEntries(withoutDirectory)).rejects.toThrow('The ZIP archive is damaged.');
+  });
+
+  it('rejects entries whose data is cut short', async () => {
+    const compressed = new Uint8Array(deflateRawSync(text)).slice(0, 10);
+    const [entry] = await readZipEntries(craftZip([{ path: 'a.txt', data: text, method: 8, compressed }]));
+    await expect(entry.read()).rejects.toThrow('The ZIP archive is damaged.');
+  });
+
+  it('rejects entries that inflate to more than their stated size', async () => {
+    const bomb = new Uint8Array(10 * 1024 * 1024);
+    const [entry] = await readZipEntries(craftZip([{ path: 'bomb.bin', data: bomb, method: 8, size: 1024 }]));
+    expect(entry.size).toBe(1024);
+    await expect(entry.read()).rejects.toThrow('The ZIP archive is damaged.');
+  });
+
+  it('rejects entries whose local header is missing', async () => {
+    const zip = await patchZip(craftZip([{ path: 'a.txt', data: 'a' }]), 0, [0, 0, 0, 0]);
+    const [entry] = await readZipEntries(zip);
+    await expect(entry.read()).rejects.toThrow('The ZIP archive is damaged.');
+  });
+
+  it('rejects encrypted entries and unsupported compression methods when they are read', async () => {
+    const [encrypted, bzip2] = await readZipEntries(craftZip([
+      { path: 'secret.pdf', data: 'x', flags: 0x0801 },
+      { path: 'Docs/old.txt', data: 'x', method: 12 },
+    ]));
+    await expect(encrypted.read()).rejects.toThrow('secret.pdf is encrypted.');
+    await expect(bzip2.read()).rejects.toThrow('Docs/old.txt uses an unsupported compression method.');
+  });
+
+  it('rejects ZIP64 archives', async () => {
+    const zip = await patchZip(craftZip([{ path: 'a.txt', data: 'a' }]), -12, [0xff, 0xff]);
+    await expect(readZipEntries(zip)).rejects.toThrow('ZIP64 archives are not supported.');
+  });
+});
@@ -0,0 +1,118 @@
+// Reads ZIP archives (and the Office and OpenDocument formats built on them) with the browser's DecompressionStream.
+// ZIP64 archives, encryption and compression methods other than "stored" and "deflate" are not supported.
+
+export interface ZipEntry {
+  path: string; // '/'-separated, as stored in the archive
+  isDirectory: boolean;
+  size: number; // Uncompressed
+  compressedSize: number;
+  lastModified: number; // Milliseconds since the epoch, read as local time like archivers do
+  read(): Promise<Uint8Array>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+const ENCRYPTED_FLAG = 0x0001;
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+// The end record is at the very end of the archive, unless the archive has a comment after it
+async function findEndOfCentralDirectory(blob: Blob): Promise<DataView> {
+  const start = Math.max(0, blob.size - 22 - MAX_COMMENT_LENGTH);
+  const tail = await readBytes(blob, start, blob.size);
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return new DataView(tail.buffer, offset, tail.byteLength - offset);
+    }
+  }
+  throw new Error('The file is not a ZIP archive.');
+}
+
+// Stops as soon as the data gets larger than the archive says it is, so that a zip bomb can't fill the memory
+async function inflate(data: Uint8Array, size: number): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const result = new Uint8Array(size);
+  let length = 0;
+  // Cut-off or corrupt data makes the stream fail with a message that differs from browser to browser
+  const next = () => reader.read().catch(() => {
+    throw new Error('The ZIP archive is damaged.');
+  });
+  for (let chunk = await next(); !chunk.done; chunk = await next()) {
+    if (length + chunk.value.length > size) {
+      await reader.cancel();
+      throw new Error('The ZIP archive is damaged.');
+    }
+    result.set(chunk.value, length);
+    length += chunk.value.length;
+  }
+  if (length !== size) throw new Error('The ZIP archive is damaged.');
+  return result;
+}
+
+// MS-DOS dates count years from 1980 and seconds in steps of two
+function dosDateTime(time: number, date: number): number {
+  return new Date(1980 + (date >> 9), ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2).getTime();
+}
+
+export async function readZipEntries(blob: Blob): Promise<ZipEntry[]> {
+  const end = await findEndOfCentralDirectory(blob);
+  const entryCount = end.getUint16(10, true);
+  const directorySize = end.getUint32(12, true);
+  const directoryOffset = end.getUint32(16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) throw new Error('ZIP64 archives are not supported.');
+
+  const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error('The ZIP archive is damaged.');
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const lastModified = dosDateTime(directory.getUint16(offset + 12, true), directory.getUint16(offset + 14, true));
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const localHeaderOffset = directory.getUint32(offset + 42, true);
+    const nameBytes = new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength);
+    // Names are read as UTF-8 even without the UTF-8 flag: archivers that don't set it mostly still write UTF-8 nowadays
+    const path = new TextDecoder().decode(nameBytes).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      path,
+      isDirectory: path.endsWith('/'),
+      size,
+      compressedSize,
+      lastModified,
+      read: async () => {
+        if (flags & ENCRYPTED_FLAG) throw new Error(`${path} is encrypted.`);
+        // The local header repeats the name and has its own extra field, so the data starts after both
+        const header = await readBytes(blob, localHeaderOffset, localHeaderOffset + 30);
+        if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) throw new Error('The ZIP archive is damaged.');
+        const dataOffset = localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+        const data = new Uint8Array(await blob.slice(dataOffset, dataOffset + compressedSize).arrayBuffer());
+        switch (method) {
+          case 0:
+            return data;
+          case 8:
+            return inflate(data, size);
+          default:
+            throw new Error(`${path} uses an unsupported compression method.`);
+        }
+      },
+    });
+  }
+  return entries;
+}
+
+// Reads a text entry of an archive, or returns null if there is no such entry.
+export async function readZipText(entries: ZipEntry[], path: string): Promise<string | null> {
+  const entry = entries.find(e => e.path === path);
+  return entry ? new TextDecoder().decode(await entry.read()) : null;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { readZipEntries, readZipText } from './zip-reader';
+import { ZipWriterEntry, zipArchiveParts } from './zip-writer';
+
+async function collectParts(entries: Iterable<ZipWriterEntry>): Promise<(Uint8Array | Blob)[]> {
+  const parts: (Uint8Array | Blob)[] = [];
+  for await (const part of zipArchiveParts(entries)) parts.push(part);
+  return parts;
+}
+
+// Only the headers, without the file contents in between
+async function collectHeaders(entries: Iterable<ZipWriterEntry>): Promise<DataView[]> {
+  const parts = await collectParts(entries);
+  return parts.filter(part => part instanceof Uint8Array).map(part => new DataView(part.buffer, part.byteOffset, part.byteLength));
+}
+
+// Stands in for a file of several GB, or for many empty ones; only its size and checksum are read
+function fakeFile(size: number): Blob {
+  return { size, stream: () => new ReadableStream({ start: controller => controller.close() }) } as unknown as Blob;
+}
+
+function* emptyFiles(count: number): Iterable<ZipWriterEntry> {
+  for (let i = 0; i < count; i++) yield { path: `${i}.txt`, data: fakeFile(0) };
+}
+
+const lastModified = new Date(2024, 2, 15, 10, 30, 20).getTime();
+
+describe('zipArchiveParts', () => {
+  it('writes archives that read back with the same names, contents and dates', async () => {
+    const files = [
+      { path: 'Rechnungen/Größe März.pdf', content: '%PDF-1.7' },
+      { path: '日本語/メモ 📄.txt', content: 'メモ' },
+      { path: 'empty.txt', content: '' },
+    ];
+    const zip = new Blob(await collectParts(files.map(({ path, content }) => ({ path, data: new Blob([content]), lastModified }))));
+    const entries = await readZipEntries(zip);
+
+    expect(entries.map(e => e.path)).toEqual(files.map(f => f.path));
+    for (const { path, content } of files) {
+      expect(await readZipText(entries, path)).toBe(content);
+    }
+    expect(entries[2].size).toBe(0);
+    expect(entries.every(e => e.lastModified === lastModified)).toBe(true);
+  });
+
+  it('writes an empty archive', async () => {
+    expect(await readZipEntries(new Blob(await collectParts([])))).toEqual([]);
+  });
+
+  it('marks names as UTF-8 and stores the checksum of the contents', async () => {
+    const [local, central] = await collectHeaders([{ path: 'naïve.txt', data: new Blob(['123456789']) }]);
+    expect(local.getUint16(6, true) & 0x0800).toBe(0x0800);
+    expect(central.getUint16(8, true) & 0x0800).toBe(0x0800);
+    expect(local.getUint32(14, true)).toBe(0xcbf43926);
+    expect(central.getUint32(16, true)).toBe(0xcbf43926);
+  });
+
+  it('stores dates before 1980 as 1980', async () => {
+    const zip = new Blob(await collectParts([{ path: 'old.txt', data: new Blob(['x']), lastModified: 0 }]));
+    const [entry] = await readZipEntries(zip);
+    expect(entry.lastModified).toBe(new Date(1980, 0, 1).getTime());
+  });
+
+  it('moves sizes and offsets of 4 GB and over to the ZIP64 extra field', async () => {
+    const [local, nextLocal, central, nextCentral, end] = await collectHeaders([
+      { path: 'a.bin', data: fakeFile(0xffffffff) },
+      { path: 'b.bin', data: fakeFile(0xfffffffe) },
+    ]);
+
+    expect(local.getUint16(4, true)).toBe(45);
+    expect(local.getUint32(22, true)).toBe(0xffffffff);
+    expect(local.getUint16(28, true)).toBe(20);
+    expect(local.getUint16(30 + 5, true)).toBe(0x0001);
+    expect(local.getBigUint64(30 + 5 + 4, true)).toBe(0xffffffffn);
+    // Just under the limit, so only its offset needs the extra field
+    expect(nextLocal.getUint16(4, true)).toBe(20);
+    expect(nextLocal.getUint32(22, true)).toBe(0xfffffffe);
+    expect(nextLocal.getUint16(28, true)).toBe(0);
+
+    expect(central.getUint32(42, true)).toBe(0xffffffff);
+    expect(central.getBigUint64(46 + 5 + 4, true)).toBe(0xffffffffn);
+    expect(central.getBigUint64(46 + 5 + 20, true)).toBe(0n);
+    expect(nextCentral.getUint32(24, true)).toBe(0xffffffff);
+    expect(nextCentral.getUint32(42, true)).toBe(0xffffffff);
+    expect(nextCentral.getBigUint64(46 + 5 + 4, true)).toBe(0xfffffffen);
+    expect(nextCentral.getBigUint64(46 + 5 + 20, true)).toBe(BigInt(local.byteLength + 0xffffffff));
+
+    // The regular end record follows the ZIP64 end record and its locator
+    expect(end.getUint32(0, true)).toBe(0x06064b50);
+    expect(end.getUint32(56, true)).toBe(0x07064b50);
+    expect(end.getUint32(76 + 16, true)).toBe(0xffffffff);
+  });
+
+  it('writes the ZIP64 end record only from 65535 files on', async () => {
+    // The empty files add nothing, so the headers alone make up the archive
+    const below = await collectHeaders(emptyFiles(0xfffe));
+    expect(below[below.length - 1].byteLength).toBe(22);
+    expect(await readZipEntries(new Blob(below))).toHaveLength(0xfffe);
+
+    const at = await collectHeaders(emptyFiles(0xffff));
+    const end = at[at.length - 1];
+    expect(end.byteLength).toBe(76 + 22);
+    expect(end.getBigUint64(24, true)).toBe(0xffffn);
+    expect(end.getUint16(76 + 8, true)).toBe(0xffff);
+    await expect(readZipEntries(new Blob(at))).rejects.toThrow('ZIP64 archives are not supported.');
+  }, 30_000);
+});
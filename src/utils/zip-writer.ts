@@ -0,0 +1,185 @@
+// Writes ZIP archives without holding them in memory: files are stored uncompressed and passed on as the Blobs they
+// are, so only the headers are created here. Documents and photos hardly compress anyway. Archives over 4 GB, or
+// with more than 65535 files, are written in the ZIP64 format.
+
+export interface ZipWriterEntry {
+  path: string; // '/'-separated, e.g. "Finance/Invoices/invoice-2024-01.pdf"
+  data: Blob;
+  lastModified?: number;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const UTF8_FLAG = 0x0800;
+const VERSION = 20;
+const ZIP64_VERSION = 45;
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32Table(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+// Reads the data chunk by chunk, so that even files of several GB don't have to fit into memory
+async function crc32(data: Blob): Promise<number> {
+  const table = crc32Table();
+  const reader = data.stream().getReader();
+  let crc = MAX_32;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    for (const byte of chunk.value) crc = table[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ MAX_32) >>> 0;
+}
+
+// MS-DOS dates count years from 1980 and seconds in steps of two; earlier dates can't be stored
+function dosDateTime(timestamp: number): { time: number; date: number } {
+  const date = new Date(Math.max(timestamp, new Date(1980, 0, 1).getTime()));
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function clamp32(value: number): number {
+  return value >= MAX_32 ? MAX_32 : value;
+}
+
+interface WrittenEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+function localFileHeader(entry: WrittenEntry): Uint8Array {
+  const isZip64 = entry.size >= MAX_32;
+  const extraLength = isZip64 ? 20 : 0;
+  const header = new Uint8Array(30 + entry.name.length + extraLength);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, LOCAL_FILE_HEADER, true);
+  view.setUint16(4, isZip64 ? ZIP64_VERSION : VERSION, true);
+  view.setUint16(6, UTF8_FLAG, true);
+  view.setUint16(8, 0, true); // Stored
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, clamp32(entry.size), true);
+  view.setUint32(22, clamp32(entry.size), true);
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, extraLength, true);
+  header.set(entry.name, 30);
+  if (isZip64) {
+    const extra = 30 + entry.name.length;
+    view.setUint16(extra, ZIP64_EXTRA_FIELD, true);
+    view.setUint16(extra + 2, 16, true);
+    view.setBigUint64(extra + 4, BigInt(entry.size), true);
+    view.setBigUint64(extra + 12, BigInt(entry.size), true);
+  }
+  return header;
+}
+
+function centralDirectoryHeader(entry: WrittenEntry): Uint8Array {
+  // The ZIP64 extra field holds every value whose regular field is set to 0xffffffff
+  const isZip64 = entry.size >= MAX_32 || entry.offset >= MAX_32;
+  const extraLength = isZip64 ? 28 : 0;
+  const header = new Uint8Array(46 + entry.name.length + extraLength);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+  view.setUint16(4, isZip64 ? ZIP64_VERSION : VERSION, true);
+  view.setUint16(6, isZip64 ? ZIP64_VERSION : VERSION, true);
+  view.setUint16(8, UTF8_FLAG, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, entry.time, true);
+  view.setUint16(14, entry.date, true);
+  view.setUint32(16, entry.crc, true);
+  view.setUint32(20, isZip64 ? MAX_32 : entry.size, true);
+  view.setUint32(24, isZip64 ? MAX_32 : entry.size, true);
+  view.setUint16(28, entry.name.length, true);
+  view.setUint16(30, extraLength, true);
+  view.setUint32(42, isZip64 ? MAX_32 : entry.offset, true);
+  header.set(entry.name, 46);
+  if (isZip64) {
+    const extra = 46 + entry.name.length;
+    view.setUint16(extra, ZIP64_EXTRA_FIELD, true);
+    view.setUint16(extra + 2, 24, true);
+    view.setBigUint64(extra + 4, BigInt(entry.size), true);
+    view.setBigUint64(extra + 12, BigInt(entry.size), true);
+    view.setBigUint64(extra + 20, BigInt(entry.offset), true);
+  }
+  return header;
+}
+
+function endOfCentralDirectory(entryCount: number, directorySize: number, directoryOffset: number): Uint8Array {
+  const isZip64 = entryCount >= MAX_16 || directorySize >= MAX_32 || directoryOffset >= MAX_32;
+  const end = new Uint8Array((isZip64 ? 56 + 20 : 0) + 22);
+  const view = new DataView(end.buffer);
+  let offset = 0;
+  if (isZip64) {
+    view.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY, true);
+    view.setBigUint64(4, 44n, true); // The size of the rest of the record
+    view.setUint16(12, ZIP64_VERSION, true);
+    view.setUint16(14, ZIP64_VERSION, true);
+    view.setBigUint64(24, BigInt(entryCount), true);
+    view.setBigUint64(32, BigInt(entryCount), true);
+    view.setBigUint64(40, BigInt(directorySize), true);
+    view.setBigUint64(48, BigInt(directoryOffset), true);
+    // The locator points to the record just written, which starts right after the central directory
+    view.setUint32(56, ZIP64_END_LOCATOR, true);
+    view.setBigUint64(64, BigInt(directoryOffset + directorySize), true);
+    view.setUint32(72, 1, true);
+    offset = 76;
+  }
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, Math.min(entryCount, MAX_16), true);
+  view.setUint16(offset + 10, Math.min(entryCount, MAX_16), true);
+  view.setUint32(offset + 12, clamp32(directorySize), true);
+  view.setUint32(offset + 16, clamp32(directoryOffset), true);
+  return end;
+}
+
+// Yields the archive piece by piece: headers as bytes and the contents as the given Blobs, which are only read to
+// compute their checksums. Write the pieces to a file one after the other, or join them into a Blob.
+export async function* zipArchiveParts(entries: Iterable<ZipWriterEntry>): AsyncGenerator<Uint8Array | Blob> {
+  const encoder = new TextEncoder();
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const writtenEntry: WrittenEntry = {
+      name: encoder.encode(entry.path),
+      crc: await crc32(entry.data),
+      size: entry.data.size,
+      offset,
+      ...dosDateTime(entry.lastModified ?? Date.now()),
+    };
+    const header = localFileHeader(writtenEntry);
+    yield header;
+    yield entry.data;
+    offset += header.length + entry.data.size;
+    written.push(writtenEntry);
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+  for (const entry of written) {
+    const header = centralDirectoryHeader(entry);
+    directorySize += header.length;
+    yield header;
+  }
+  yield endOfCentralDirectory(written.length, directorySize, directoryOffset);
+}